@@ -3,6 +3,7 @@ import { BaseCDPPlugin } from '../src/base_cdp_plugin.ts'
 
 export default class MessageModifierPlugin extends BaseCDPPlugin {
     name = 'Advanced Example Plugin'
+    override apiVersion = 1
 
     override async onRequest(request: CDPCommandRequest): Promise<CDPCommandRequest | null> {
     // Ensure we have the required fields according to CDP protocol
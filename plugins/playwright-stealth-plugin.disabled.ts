@@ -2,6 +2,7 @@ import type {
   CDPCommandRequest,
   CDPCommandResponse,
   CDPEvent,
+  PluginContext,
 } from '../src/types.ts'
 import { BaseCDPPlugin } from '../src/base_cdp_plugin.ts'
 
@@ -41,6 +42,7 @@ interface CDPBindingCalledEvent extends CDPEvent {
 // NOTE: See RFC for this plugin in docs/playwright-stealth-plugin.md
 export class RuntimeEnableMitMPlugin extends BaseCDPPlugin {
   name = 'RuntimeEnableMitMPlugin'
+  override apiVersion = 1
 
   // Tracks if a session thinks "Runtime is enabled" so we can
   // give them synthetic contexts and skip real calls.
@@ -55,11 +57,27 @@ export class RuntimeEnableMitMPlugin extends BaseCDPPlugin {
   // Track binding names for addBinding mode
   bindingNames: Map<string, string> = new Map() // key=frameId, value=bindingName
 
-  // Configuration
-  private readonly fixMode = Deno.env.get('REBROWSER_PATCHES_RUNTIME_FIX_MODE') || 'addBinding'
-  private readonly utilityWorldName = Deno.env.get('REBROWSER_PATCHES_UTILITY_WORLD_NAME') !== '0' 
-    ? (Deno.env.get('REBROWSER_PATCHES_UTILITY_WORLD_NAME') || 'util') 
-    : '__playwright_utility_world__'
+  // Track the frames of each target, child frames included, to release them with it
+  targetFrames: Map<string, Set<string>> = new Map() // key=CDP sessionId, value=frameIds
+
+  // Configuration, e.g. CDP_PROXY_PLUGIN_RUNTIME_ENABLE_MIT_MPLUGIN_FIX_MODE=alwaysIsolated
+  override configSchema = {
+    type: 'object',
+    properties: {
+      fixMode: { type: 'string', enum: ['addBinding', 'alwaysIsolated'], default: 'addBinding' },
+      // '0' keeps Playwright's own name
+      utilityWorldName: { type: 'string', default: 'util' },
+    },
+  }
+
+  private get fixMode(): string {
+    return this.config?.fixMode as string
+  }
+
+  private get utilityWorldName(): string {
+    const name = this.config?.utilityWorldName as string
+    return name !== '0' ? name : '__playwright_utility_world__'
+  }
 
   override async onRequest(
     request: CDPCommandRequest,
@@ -108,6 +126,22 @@ export class RuntimeEnableMitMPlugin extends BaseCDPPlugin {
     return response
   }
 
+  // Release per-target state once the target is gone
+  override async onTargetDetached(
+    target: CDPTargetInfo,
+    context: PluginContext,
+  ): Promise<void> {
+    const frameIds = new Set(context.sessionId ? this.targetFrames.get(context.sessionId) : [])
+    frameIds.add(target.targetId) // The main frame shares the target's id
+    frameIds.forEach((frameId) => {
+      this.frameContexts.delete(frameId)
+      this.bindingNames.delete(frameId)
+    })
+    if (!context.sessionId) return
+    this.sessionsRuntimeEnabled.delete(context.sessionId)
+    this.targetFrames.delete(context.sessionId)
+  }
+
   override async onEvent(event: CDPEvent): Promise<CDPEvent | null> {
     if (!event?.method) return event
 
@@ -185,6 +219,9 @@ export class RuntimeEnableMitMPlugin extends BaseCDPPlugin {
       })
     }
 
+    const frameIds = this.targetFrames.get(sessionId) ?? new Set()
+    this.targetFrames.set(sessionId, frameIds.add(frameId))
+
     // Create context based on fix mode
     if (!this.frameContexts.has(frameId)) {
       try {
@@ -273,6 +310,7 @@ export class RuntimeEnableMitMPlugin extends BaseCDPPlugin {
       console.debug(`[handleFrameDetached] Detaching frameId: ${frameId}`)
       this.frameContexts.delete(frameId)
       this.bindingNames.delete(frameId)
+      event.sessionId && this.targetFrames.get(event.sessionId)?.delete(frameId)
     }
     return event
   }
@@ -433,6 +471,7 @@ export class RuntimeEnableMitMPlugin extends BaseCDPPlugin {
     this.frameContexts.clear()
     this.workerContexts.clear()
     this.bindingNames.clear()
+    this.targetFrames.clear()
   }
 }
 
@@ -3,6 +3,7 @@ import { BaseCDPPlugin } from '../src/base_cdp_plugin.ts'
 
 export class LoggingPlugin extends BaseCDPPlugin {
   name = 'Simple Example Plugin'
+  override apiVersion = 1
 
   override async onRequest(request: CDPCommandRequest): Promise<CDPCommandRequest | null> {
     console.log('[CDP Plugin] Intercepted request:', request)
@@ -3,6 +3,18 @@ import type {
   CDPCommandRequest,
   CDPCommandResponse,
   CDPEvent,
+  CDPMessage,
+  CDPTargetInfo,
+  PluginConfig,
+  PluginContext,
+  PluginEnabledState,
+  PluginHookResult,
+  PluginHookTimeouts,
+  PluginMatcher,
+  PluginMethodHandler,
+  PluginPermissions,
+  SchemaDefinition,
+  Session,
 } from './types.ts'
 
 /**
@@ -11,6 +23,72 @@ import type {
 export abstract class BaseCDPPlugin implements CDPPlugin {
   abstract name: string
 
+  /**
+   * Plugin API version the plugin was written for. Plugins for older versions
+   * are adapted or rejected, undeclared means version 1.
+   */
+  apiVersion?: number
+
+  /**
+   * Restricts which messages this plugin receives. Leave unset to receive
+   * every request, response and event.
+   */
+  matcher?: PluginMatcher
+
+  /**
+   * Position in the plugin chain. Lower runs first, defaults to 100.
+   */
+  priority?: number
+
+  /**
+   * Names of plugins that must run after or before this one, regardless of
+   * priority
+   */
+  before?: string[]
+  after?: string[]
+
+  /**
+   * Time budget in milliseconds for each hook, or one budget for all hooks.
+   * Slower hooks are skipped for that message and count towards the plugin's
+   * circuit breaker.
+   */
+  hookTimeouts?: PluginHookTimeouts
+
+  /**
+   * CDP methods this plugin answers itself, e.g. `Proxy.getStats`. Clients
+   * call them like any other command and Chrome never sees them.
+   */
+  customMethods?: Record<string, PluginMethodHandler>
+
+  /**
+   * What the plugin may access when plugins run isolated in workers. Anything
+   * not listed is denied.
+   */
+  permissions?: PluginPermissions
+
+  /**
+   * Schema for the plugin's options. Defaults come from the schema, values
+   * from the config file, `CDP_PROXY_PLUGIN_<NAME>_<KEY>` variables and
+   * startProxy. A plugin whose config doesn't validate is not loaded.
+   */
+  configSchema?: SchemaDefinition
+
+  /**
+   * Runs the message hooks without applying their results. What they would
+   * have changed is logged and kept by PluginManager.getDryRunRecords.
+   */
+  dryRun?: boolean
+
+  /**
+   * The resolved configuration, set when the plugin is registered
+   */
+  config?: PluginConfig
+
+  /**
+   * Where the plugin is enabled, set when the plugin is registered
+   */
+  enabledState?: PluginEnabledState
+
   // These will be injected by the PluginManager
   sendCDPCommand!: (
     endpoint: string,
@@ -21,17 +99,42 @@ export abstract class BaseCDPPlugin implements CDPPlugin {
     proxySessionId: string,
     event: CDPEvent | CDPCommandResponse,
   ) => Promise<void>
+  releaseHeldMessages!: (
+    proxySessionId: string,
+    key: string,
+    replacement?: PluginHookResult<CDPMessage>,
+  ) => Promise<void>
+  dropHeldMessages!: (proxySessionId: string, key: string) => void
 
-  onRequest?(request: CDPCommandRequest): Promise<CDPCommandRequest | null> {
+  onRequest?(
+    request: CDPCommandRequest,
+    _context?: PluginContext,
+  ): Promise<PluginHookResult<CDPCommandRequest | CDPCommandResponse>> {
     return Promise.resolve(request);
   }
-  onResponse?(response: CDPCommandResponse): Promise<CDPCommandResponse | null> {
+  onResponse?(
+    response: CDPCommandResponse,
+    _context?: PluginContext,
+  ): Promise<PluginHookResult<CDPCommandResponse>> {
     return Promise.resolve(response);
   }
-  onEvent?(event: CDPEvent): Promise<CDPEvent | null> {
+  onEvent?(
+    event: CDPEvent,
+    _context?: PluginContext,
+  ): Promise<PluginHookResult<CDPEvent>> {
     return Promise.resolve(event);
   }
   cleanup?(): Promise<void> {
     return Promise.resolve();
   }
+
+  /**
+   * Lifecycle hooks, called when a proxy session starts or ends and when a
+   * page, iframe or worker target attaches or detaches. Target hooks get a
+   * context bound to the target's CDP session.
+   */
+  onSessionStart?(session: Session): Promise<void>
+  onSessionEnd?(session: Session): Promise<void>
+  onTargetAttached?(target: CDPTargetInfo, context: PluginContext): Promise<void>
+  onTargetDetached?(target: CDPTargetInfo, context: PluginContext): Promise<void>
 } 
\ No newline at end of file
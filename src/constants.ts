@@ -81,11 +81,71 @@ export const CHROME_FLAGS = [
 
 export const WEBSOCKET_MANAGER = {
   MAX_PENDING_MESSAGES: 1000,
+  // Commands sent to Chrome by plugins use ids from here up; client ids are
+  // remapped below it so the two can never collide
+  PLUGIN_COMMAND_ID_BASE: 1000000000,
+  // Liveness checks, see HeartbeatConfig
   HEARTBEAT_INTERVAL: 30000,
+  HEARTBEAT_MISSED_LIMIT: 3,
+  // Buffer limits and flow control, see BufferConfig
+  BUFFER_CLEANUP_INTERVAL: 30000,
+  BUFFER_WARNING_THRESHOLD: 16 * 1024 * 1024,
+  BUFFER_MAX_SIZE: 64 * 1024 * 1024,
+  BUFFER_MAX_MESSAGE_SIZE: 32 * 1024 * 1024,
+  BUFFER_OVERFLOW_POLICY: 'drop-oldest',
+  HIGH_WATER_MARK: 16 * 1024 * 1024,
+  LOW_WATER_MARK: 4 * 1024 * 1024,
+  DRAIN_CHECK_INTERVAL: 50, // bufferedAmount has no event, so it's polled
+  // Reconnecting a dropped Chrome socket, the first attempt is immediate
+  RECONNECT_ATTEMPTS: 5,
+  RECONNECT_DELAY: 500, // Doubles after every failed attempt
+  RECONNECT_TIMEOUT: 10000,
   CLEANUP_TIMEOUT: 100,
   LOG_STYLE: 'color: rgb(50, 205, 50); font-weight: bold;',
 } as const
 
+export const PLUGIN_API = {
+  VERSION: 1, // What BaseCDPPlugin and the hook signatures implement
+  LEGACY_VERSION: 1, // Assumed for plugins that don't declare apiVersion
+} as const
+
+export const PLUGIN_MANAGER = {
+  HOOK_TIMEOUT_MS: 5000,
+  CIRCUIT_BREAKER_WINDOW_MS: 60000,
+  CIRCUIT_BREAKER_COOLDOWN_MS: 30000,
+  HOLD_TIMEOUT_MS: 30000,
+  DRY_RUN_RECORD_LIMIT: 1000, // Oldest dry-run records are dropped beyond this
+} as const
+
+export const PLUGIN_LOADER = {
+  DIRECTORY: './plugins',
+  RELOAD_DEBOUNCE_MS: 100,
+  MANIFEST_FILE: './cdp-proxy.plugins.json',
+} as const
+
+export const PLUGIN_CONFIG = {
+  FILE: './cdp-proxy.config.json',
+  ENV_PREFIX: 'CDP_PROXY_PLUGIN_',
+} as const
+
+// Query parameters clients select plugins with on the proxy's endpoints
+export const PLUGIN_SELECTION = {
+  PLUGINS_PARAM: 'plugins', // Comma separated plugin names
+  PROFILE_PARAM: 'profile',
+} as const
+
+export const PLUGIN_TEST_HARNESS = {
+  PATH: '/devtools/browser/plugin-test-harness',
+  RESPONSE_TIMEOUT_MS: 1000,
+  SETTLE_TURNS: 3, // Idle event loop turns before the proxy counts as settled
+  MAX_SETTLE_TURNS: 1000,
+} as const
+
+export const PLUGIN_WORKER = {
+  INIT_TIMEOUT_MS: 10000,
+  RESTART_DELAY_MS: 1000,
+} as const
+
 export const CHROME_STARTUP_CONFIG = {
   RETRY_ATTEMPTS: 3,
   BASE_RETRY_DELAY_MS: 2000,
@@ -96,6 +96,16 @@ export class ErrorHandler {
     Deno.exit(1)
   }
 
+  /**
+   * Gets the number of errors of a type that are tolerated before they are
+   * treated as excessive
+   * @param type The type of error
+   * @returns The threshold for the error type
+   */
+  getErrorThreshold(type: CDPErrorType): number {
+    return ErrorHandler.ERROR_THRESHOLDS[type]
+  }
+
   /**
    * Gets the count of errors of a specific type for a given session
    * @param type The type of error to count
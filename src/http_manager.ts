@@ -3,6 +3,7 @@ import type { ErrorHandler } from './error_handler.ts'
 import type { CDPResponse } from './types.ts'
 import { CDPErrorType } from './types.ts'
 import { CDP_WEBSOCKET_PATHS } from './constants.ts'
+import { getSelectionParams, withoutSelectionParams } from './plugin_selection.ts'
 
 /**
  * Manages HTTP requests and responses for the CDP proxy
@@ -14,7 +15,9 @@ export class HttpManager {
   ) {}
 
   /**
-   * Handles incoming HTTP requests and proxies them to Chrome
+   * Handles incoming HTTP requests and proxies them to Chrome. Plugin
+   * selection parameters are carried over to the WebSocket URLs in the
+   * response instead of being sent to Chrome.
    */
   async handleRequest(
     req: Request,
@@ -29,7 +32,8 @@ export class HttpManager {
         })()
 
       const { method, headers, body } = req
-      const chromeUrl = `http://localhost:${chromePort}${url.pathname}${url.search}`
+      const { pathname, search } = withoutSelectionParams(url)
+      const chromeUrl = `http://localhost:${chromePort}${pathname}${search}`
       const chromeResponse = await fetch(new URL(chromeUrl), {
         method,
         headers,
@@ -40,7 +44,11 @@ export class HttpManager {
 
       return responseData && typeof responseData === 'object'
         ? this.createJsonResponse(
-            this.rewriteResponse(responseData, `${url.hostname}:${proxyPort}`),
+            this.rewriteResponse(
+              responseData,
+              `${url.hostname}:${proxyPort}`,
+              getSelectionParams(url),
+            ),
             status,
             responseHeaders,
           )
@@ -77,22 +85,30 @@ export class HttpManager {
   /**
    * Rewrites WebSocket URLs in CDP responses
    */
-  private rewriteResponse(data: unknown, proxyHost: string): unknown {
+  private rewriteResponse(
+    data: unknown,
+    proxyHost: string,
+    selection: URLSearchParams,
+  ): unknown {
     if (!data || typeof data !== 'object') return data
     if (Array.isArray(data))
-      return data.map((item) => this.rewriteResponse(item, proxyHost))
+      return data.map((item) => this.rewriteResponse(item, proxyHost, selection))
 
     const result = { ...(data as CDPResponse) }
 
     // Apply WebSocket URL rewrites
-    this.rewriteWebSocketUrls(result, proxyHost)
-    this.rewriteOtherWebSocketPaths(result, proxyHost)
+    this.rewriteWebSocketUrls(result, proxyHost, selection)
+    this.rewriteOtherWebSocketPaths(result, proxyHost, selection)
 
     return result
   }
 
-  private rewriteWebSocketUrls(result: CDPResponse, proxyHost: string) {
-    const rewriteWsUrl = this.createWsUrlRewriter(proxyHost)
+  private rewriteWebSocketUrls(
+    result: CDPResponse,
+    proxyHost: string,
+    selection: URLSearchParams,
+  ) {
+    const rewriteWsUrl = this.createWsUrlRewriter(proxyHost, selection)
     const rewriteWsParam = this.createWsParamRewriter(rewriteWsUrl)
 
     result.webSocketDebuggerUrl &&= rewriteWsUrl(result.webSocketDebuggerUrl)
@@ -100,12 +116,13 @@ export class HttpManager {
     result.debuggerUrl &&= rewriteWsUrl(result.debuggerUrl)
   }
 
-  private createWsUrlRewriter(proxyHost: string) {
+  private createWsUrlRewriter(proxyHost: string, selection: URLSearchParams) {
     return (url: string) => {
       try {
         const wsUrlObj = new URL(url)
         wsUrlObj.hostname = 'localhost'
         wsUrlObj.port = proxyHost.split(':')[1]
+        selection.forEach((value, name) => wsUrlObj.searchParams.append(name, value))
         return wsUrlObj.toString()
       } catch {
         console.warn('[PROXY] Failed to rewrite WebSocket URL:', url)
@@ -125,8 +142,12 @@ export class HttpManager {
       })
   }
 
-  private rewriteOtherWebSocketPaths(result: CDPResponse, proxyHost: string) {
-    const rewriteWsUrl = this.createWsUrlRewriter(proxyHost)
+  private rewriteOtherWebSocketPaths(
+    result: CDPResponse,
+    proxyHost: string,
+    selection: URLSearchParams,
+  ) {
+    const rewriteWsUrl = this.createWsUrlRewriter(proxyHost, selection)
     const rewriteWsParam = this.createWsParamRewriter(rewriteWsUrl)
 
     for (const [key, value] of Object.entries(result)) {
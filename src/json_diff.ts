@@ -0,0 +1,27 @@
+import type { JsonDiffEntry } from './types.ts'
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null
+
+// JSON Pointer escaping from RFC 6901
+const escapeKey = (key: string): string => key.replaceAll('~', '~0').replaceAll('/', '~1')
+
+/**
+ * Lists the differences between two JSON values, walking into objects and
+ * arrays. Array items are compared by index.
+ * @returns An empty array when the values are equal
+ */
+export const diffJson = (from: unknown, to: unknown, path = ''): JsonDiffEntry[] => {
+  if (Object.is(from, to)) return []
+  if (!isObject(from) || !isObject(to) || Array.isArray(from) !== Array.isArray(to)) {
+    return [{ op: 'replace', path, from, to }]
+  }
+
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)])
+  return [...keys].flatMap((key): JsonDiffEntry[] => {
+    const keyPath = `${path}/${escapeKey(key)}`
+    if (!Object.hasOwn(to, key)) return [{ op: 'remove', path: keyPath, from: from[key] }]
+    if (!Object.hasOwn(from, key)) return [{ op: 'add', path: keyPath, to: to[key] }]
+    return diffJson(from[key], to[key], keyPath)
+  })
+}
@@ -3,14 +3,18 @@ import 'jsr:@std/dotenv/load'
 import { ChromeManager } from './chrome_manager.ts'
 import { ErrorHandler } from './error_handler.ts'
 import { HttpManager } from './http_manager.ts'
+import { loadProxyConfigFile } from './plugin_config.ts'
+import { PluginLoader } from './plugin_loader.ts'
 import { PluginManager } from './plugin_manager.ts'
+import { withoutSelectionParams } from './plugin_selection.ts'
 import { SchemaValidator } from './schema_validator.ts'
 import { SessionManager } from './session_manager.ts'
 import { WebSocketManager } from './websocket_manager.ts'
-import type { ProxyComponents } from './types.ts'
+import type { ProxyComponents, ProxyOptions } from './types.ts'
+import { PLUGIN_LOADER, WEBSOCKET_MANAGER } from './constants.ts'
 
 /** Creates and initializes all proxy components */
-const createComponents = async () => {
+const createComponents = async (options: ProxyOptions) => {
   const components = {
     errorHandler: new ErrorHandler(),
     schemaValidator: new SchemaValidator(),
@@ -18,63 +22,94 @@ const createComponents = async () => {
     sessionManager: null,
     wsManager: null,
     pluginManager: null,
+    pluginLoader: null,
     httpManager: null,
   } as unknown as ProxyComponents
 
   components.chromeManager = new ChromeManager(components.errorHandler)
   components.sessionManager = new SessionManager(components.errorHandler)
-  components.wsManager = new WebSocketManager(components.errorHandler, components.schemaValidator, null)
-  components.pluginManager = new PluginManager(components.errorHandler, components.sessionManager, components.wsManager)
+  components.wsManager = new WebSocketManager(
+    components.errorHandler,
+    components.schemaValidator,
+    null,
+    options.buffer,
+    options.heartbeat,
+  )
+  components.pluginManager = new PluginManager(
+    components.errorHandler,
+    components.sessionManager,
+    components.wsManager,
+    components.schemaValidator,
+  )
   components.wsManager.setPluginManager(components.pluginManager)
+  components.sessionManager.setBufferUsageSource(components.wsManager.getBufferUsage)
+  const configFile = await loadProxyConfigFile(Deno.env.get('CDP_PROXY_CONFIG_FILE'))
+  components.pluginManager.setConfigSources({
+    file: configFile.plugins,
+    options: options.pluginConfig,
+  })
+  components.pluginManager.setPluginProfiles({ ...configFile.profiles, ...options.pluginProfiles })
   components.httpManager = new HttpManager(components.chromeManager, components.errorHandler)
+  components.pluginLoader = new PluginLoader(
+    components.pluginManager,
+    undefined,
+    Deno.env.get('CDP_PROXY_PLUGIN_ISOLATION') === 'worker',
+  )
 
+  // Plugins load once the schema is known so custom methods can be checked against it
   const loadPlugins = async () => {
-    try {
-      const plugins = Deno.readDir('./plugins')
-      for await (const { isFile, name } of plugins) {
-        if (!isFile || !/\.[jt]s$/.test(name) || name.toLowerCase().includes('.disabled.')) {
-          name.toLowerCase().includes('.disabled.') && console.log(`[PLUGINS] Skipping disabled plugin: ${name}`)
-          continue
-        }
+    await components.schemaValidator.initialize()
+    await components.pluginLoader.loadAll()
+    await components.pluginLoader.loadManifestFile(
+      Deno.env.get('CDP_PROXY_PLUGIN_MANIFEST') ?? PLUGIN_LOADER.MANIFEST_FILE,
+    )
+    options.plugins && await components.pluginLoader.loadManifest(options.plugins)
+  }
 
-        try {
-          const module = await import(`../plugins/${name}`)
-          const PluginClass = module?.default ?? Object.values(module ?? {})[0]
-          if (typeof PluginClass === 'function') {
-            components.pluginManager.registerPlugin(new PluginClass())
-            console.log(`[PLUGINS] Loaded plugin from ${name}`)
-          }
-        } catch (error) {
-          console.error(`[PLUGINS] Failed to load plugin from ${name}:`, error)
-        }
-      }
-    } catch (error) {
-      console.error('[PLUGINS] Error reading plugins directory:', error)
-    }
+  const [plugins, chrome] = await Promise.allSettled([loadPlugins(), components.chromeManager.start()])
+  if (plugins.status === 'rejected') {
+    // A required plugin failed to load, so the Chrome launched alongside is stopped
+    await components.chromeManager.stop()
+    throw plugins.reason
   }
+  if (chrome.status === 'rejected') throw chrome.reason
+
+  components.pluginManager.hasPlugins() &&
+    console.log(`[PLUGINS] Plugin order: ${components.pluginManager.getPluginOrder().join(' → ')}`)
 
-  await Promise.all([
-    loadPlugins(),
-    components.schemaValidator.initialize(),
-    components.chromeManager.start(),
-  ])
+  Deno.env.get('CDP_PROXY_PLUGIN_HOT_RELOAD') === 'true' && components.pluginLoader.watch()
 
   return components
 }
 
 const handleWebSocketUpgrade = async (
   req: Request,
-  { chromeManager, sessionManager, wsManager }: ProxyComponents,
+  { chromeManager, sessionManager, wsManager, pluginManager }: ProxyComponents,
+  { heartbeat }: ProxyOptions,
 ): Promise<Response> => {
-  const { socket: clientSocket, response } = Deno.upgradeWebSocket(req)
   const url = new URL(req.url)
+  let plugins: string[] | undefined
+  try {
+    plugins = pluginManager.selectPlugins(url)
+  } catch (error) {
+    console.error(`[CDP PROXY] Rejected WebSocket upgrade for ${req.url}:`, error)
+    return new Response(error instanceof Error ? error.message : String(error), { status: 400 })
+  }
+
+  // Deno pings the client and closes it when a pong is late, allowing the
+  // same missedLimit intervals Chrome gets
+  const interval = heartbeat?.interval ?? WEBSOCKET_MANAGER.HEARTBEAT_INTERVAL
+  const missedLimit = heartbeat?.missedLimit ?? WEBSOCKET_MANAGER.HEARTBEAT_MISSED_LIMIT
+  const { socket: clientSocket, response } = Deno.upgradeWebSocket(req, {
+    idleTimeout: Math.ceil((interval * missedLimit) / 1000),
+  })
   const path = `${url.pathname}${url.search}`
   console.log(`[CDP PROXY] Handling WebSocket upgrade for ${req.url}`)
 
   try {
     const chromeWsUrl = url.pathname.includes('/devtools/browser')
       ? await chromeManager.getWebSocketUrl()
-      : req.url.replace(url.host, `localhost:${chromeManager.port}`)
+      : withoutSelectionParams(url).href.replace(url.host, `localhost:${chromeManager.port}`)
 
     console.log(`[CDP PROXY] Connecting to Chrome at ${chromeWsUrl}`)
     const chromeSocket = new WebSocket(chromeWsUrl)
@@ -99,8 +134,19 @@ const handleWebSocketUpgrade = async (
 
     Object.assign(clientSocket, { _path: path })
     Object.assign(chromeSocket, { _path: path })
-    const session = sessionManager.createSession(clientSocket, chromeSocket, chromeWsUrl)
-    await wsManager.handleConnection(clientSocket, chromeSocket, session.id)
+    const session = sessionManager.createSession(clientSocket, chromeSocket, chromeWsUrl, undefined, plugins)
+    plugins && console.log(`[PLUGINS] Session ${session.id} uses plugins: ${plugins.join(', ') || 'none'}`)
+    clientSocket.addEventListener('close', () => {
+      sessionManager.removeSession(session.id)
+      wsManager.cleanup(session.id)
+    })
+    await wsManager.handleConnection(clientSocket, chromeSocket, session.id, {
+      // The browser endpoint changes when Chrome restarts
+      getUrl: () => url.pathname.includes('/devtools/browser') ? chromeManager.getWebSocketUrl() : chromeWsUrl,
+      onReconnect: (socket) => {
+        session.chromeSocket = socket
+      },
+    })
 
     return response
   } catch (error) {
@@ -110,10 +156,10 @@ const handleWebSocketUpgrade = async (
 }
 
 /** Starts a Chrome DevTools Protocol proxy server */
-export default async function startProxy(port: number) {
+export default async function startProxy(port: number, options: ProxyOptions = {}) {
   console.log(`[CDP PROXY] Starting CDP proxy on port ${port}...`)
   const abortController = new AbortController()
-  const components = await createComponents()
+  const components = await createComponents(options)
   await components.chromeManager.getWebSocketUrl()
 
   const server = Deno.serve({
@@ -126,7 +172,7 @@ export default async function startProxy(port: number) {
     handler: async req => {
       try {
         if (req.headers.get('upgrade') === 'websocket') {
-          const response = await handleWebSocketUpgrade(req, components)
+          const response = await handleWebSocketUpgrade(req, components, options)
           // Ensure the WebSocket is ready before returning
           await new Promise(resolve => setTimeout(resolve, 100))
           return response
@@ -145,6 +191,7 @@ export default async function startProxy(port: number) {
     cleanup: async () => {
       console.log(`[CDP PROXY] Cleaning up...`)
       abortController.abort()
+      components.pluginLoader.close()
       try {
         await Promise.all([
           ...components.sessionManager.getActiveSessions().map(session => components.wsManager.cleanup(session.id)),
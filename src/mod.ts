@@ -1,12 +1,37 @@
 // Export types needed by consumers
 export type {
+  BufferConfig,
+  BufferOverflowPolicy,
+  BufferUsage,
   CDPPlugin,
   CDPCommandRequest,
   CDPCommandResponse,
   CDPEvent,
+  CDPMessageMetadata,
+  CDPTargetInfo,
+  ChromeReconnectOptions,
+  FakeChromeReply,
+  HeartbeatConfig,
+  JsonDiffEntry,
+  PluginConfig,
+  PluginContext,
+  PluginDryRunRecord,
+  PluginEnabledState,
+  PluginHoldOptions,
+  PluginManifestEntry,
+  PluginMatcher,
+  PluginPermissions,
+  PluginProfiles,
+  PluginTestHarnessOptions,
+  ProxyOptions,
+  SchemaDefinition,
   Session,
+  WebSocketQueueStats,
 } from './types.ts'
 
 // Export main functionality for starting/stopping proxy
 export { default as startProxy } from './main.ts'
 export { setupSignalHandlers } from './main.ts'
+
+// Export the harness for testing plugins without a browser
+export { PluginTestHarness } from './plugin_test_harness.ts'
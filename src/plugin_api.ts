@@ -0,0 +1,25 @@
+import type { CDPPlugin } from './types.ts'
+import { PLUGIN_API } from './constants.ts'
+
+/**
+ * The plugin API version a plugin was written for. Plugins that don't
+ * declare one predate versioning.
+ */
+export const getPluginApiVersion = (plugin: CDPPlugin): number =>
+  plugin.apiVersion ?? PLUGIN_API.LEGACY_VERSION
+
+/**
+ * Checks a plugin's API version against the version this proxy implements
+ * @returns Why the plugin can't be loaded, or undefined when it can
+ */
+export const checkPluginApiVersion = (plugin: CDPPlugin): string | undefined => {
+  const version = getPluginApiVersion(plugin)
+
+  if (!Number.isInteger(version) || version < 1) {
+    return `Plugin ${plugin.name} declares an invalid apiVersion ${version}, this proxy supports ${PLUGIN_API.VERSION}`
+  }
+  if (version > PLUGIN_API.VERSION) {
+    return `Plugin ${plugin.name} needs plugin API ${version}, this proxy supports ${PLUGIN_API.VERSION}. Update the proxy.`
+  }
+  return undefined
+}
@@ -0,0 +1,111 @@
+import type {
+  CDPPlugin,
+  PluginConfig,
+  PluginConfigSources,
+  ProxyConfigFile,
+  SchemaDefinition,
+} from './types.ts'
+import { PLUGIN_CONFIG } from './constants.ts'
+
+/**
+ * Converts a plugin or property name to its environment variable form, e.g.
+ * `fixMode` → `FIX_MODE`
+ */
+export const toEnvName = (name: string): string =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .toUpperCase()
+
+/**
+ * Gets the environment variable a plugin's config property is read from,
+ * e.g. `CDP_PROXY_PLUGIN_STEALTH_FIX_MODE`
+ */
+export const getConfigEnvName = (pluginName: string, property: string): string =>
+  `${PLUGIN_CONFIG.ENV_PREFIX}${toEnvName(pluginName)}_${toEnvName(property)}`
+
+/**
+ * Parses an environment variable into the type its schema expects. Values
+ * that don't parse are kept as strings so validation can report them.
+ */
+const parseEnvValue = (value: string, schema?: SchemaDefinition): unknown => {
+  switch (schema?.type) {
+    case 'number':
+    case 'integer':
+      return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value
+    case 'object':
+    case 'array':
+      try {
+        return JSON.parse(value)
+      } catch {
+        return value
+      }
+    default:
+      return value
+  }
+}
+
+const getSchemaDefaults = (schema?: SchemaDefinition): PluginConfig =>
+  Object.fromEntries(
+    Object.entries(schema?.properties ?? {})
+      .filter(([, property]) => property.default !== undefined)
+      .map(([key, property]) => [key, structuredClone(property.default)]),
+  )
+
+/**
+ * Reads the environment variables for each top-level property of a plugin's
+ * config schema
+ */
+const getEnvConfig = (
+  plugin: CDPPlugin,
+  env: Record<string, string>,
+): PluginConfig =>
+  Object.fromEntries(
+    Object.entries(plugin.configSchema?.properties ?? {})
+      .map(([key, property]) => [key, env[getConfigEnvName(plugin.name, key)], property] as const)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value, property]) => [key, parseEnvValue(value!, property)]),
+  )
+
+/**
+ * Merges a plugin's configuration from all sources, without validating it
+ * @param entryOptions Options from the plugin's manifest entry
+ */
+export const resolvePluginConfig = (
+  plugin: CDPPlugin,
+  { file, env = Deno.env.toObject(), options }: PluginConfigSources,
+  entryOptions?: PluginConfig,
+): PluginConfig => ({
+  ...getSchemaDefaults(plugin.configSchema),
+  ...file?.[plugin.name],
+  ...entryOptions,
+  ...getEnvConfig(plugin, env),
+  ...options?.[plugin.name],
+})
+
+/**
+ * Reads the proxy config file. A missing file means no configuration.
+ * @throws Error when the file isn't valid JSON
+ */
+export const loadProxyConfigFile = async (
+  path: string = PLUGIN_CONFIG.FILE,
+): Promise<ProxyConfigFile> => {
+  let text: string
+  try {
+    text = await Deno.readTextFile(path)
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return {}
+    throw error
+  }
+
+  try {
+    const { plugins, profiles } = JSON.parse(text) as ProxyConfigFile
+    return { plugins, profiles }
+  } catch (error) {
+    throw new Error(
+      `Invalid proxy config file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+}
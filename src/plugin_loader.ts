@@ -0,0 +1,237 @@
+import { dirname, fromFileUrl, resolve, toFileUrl } from 'jsr:@std/path'
+import type { PluginManager } from './plugin_manager.ts'
+import type { CDPPlugin, PluginManifest, PluginManifestEntry } from './types.ts'
+import { PLUGIN_LOADER } from './constants.ts'
+import { WorkerPlugin } from './worker_plugin.ts'
+
+/**
+ * Loads plugins from the plugins directory and, when watching, keeps the
+ * registered plugins in sync with the files on disk
+ */
+export class PluginLoader {
+  private readonly loadedPlugins = new Map<string, CDPPlugin>()
+  private readonly pendingReloads = new Map<string, number>()
+  private watcher: Deno.FsWatcher | null = null
+
+  constructor(
+    private readonly pluginManager: PluginManager,
+    private readonly directory: string = PLUGIN_LOADER.DIRECTORY,
+    // Runs each plugin in its own worker with the permissions it declares
+    private readonly isolated = false,
+  ) {}
+
+  /**
+   * Loads every enabled plugin in the directory, in file name order so the
+   * load order doesn't depend on the filesystem
+   */
+  async loadAll(): Promise<void> {
+    try {
+      const entries = (await Array.fromAsync(Deno.readDir(this.directory)))
+        .filter(({ isFile }) => isFile)
+        .sort((a, b) => a.name.localeCompare(b.name))
+
+      for (const { name } of entries) {
+        if (this.isDisabled(name)) {
+          console.log(`[PLUGINS] Skipping disabled plugin: ${name}`)
+          continue
+        }
+        this.isPluginFile(name) && await this.load(name)
+      }
+    } catch (error) {
+      console.error('[PLUGINS] Error reading plugins directory:', error)
+    }
+  }
+
+  /**
+   * Loads the plugins listed in a manifest file. A missing file lists no
+   * plugins.
+   * @throws Error when the manifest can't be read or a required plugin fails to load
+   */
+  async loadManifestFile(path: string): Promise<void> {
+    let manifest: PluginManifest
+    try {
+      manifest = JSON.parse(await Deno.readTextFile(path))
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return
+      throw new Error(
+        `Invalid plugin manifest ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+
+    await this.loadManifest(manifest.plugins ?? [], toFileUrl(dirname(resolve(path)) + '/'))
+  }
+
+  /**
+   * Loads plugins from module specifiers, in order. Failures are reported per
+   * entry and only fail the whole manifest for required plugins.
+   * @param baseUrl What relative paths are resolved against
+   * @throws Error listing the required plugins that failed to load
+   */
+  async loadManifest(
+    entries: (string | PluginManifestEntry)[],
+    baseUrl: URL = toFileUrl(Deno.cwd() + '/'),
+  ): Promise<void> {
+    const failures: string[] = []
+
+    for (const item of entries) {
+      const entry = typeof item === 'string' ? { specifier: item } : item
+      if (entry.enabled === false) {
+        console.log(`[PLUGINS] Skipping disabled plugin: ${entry.specifier}`)
+        continue
+      }
+
+      try {
+        const plugin = await this.loadEntry(entry, baseUrl)
+        console.log(`[PLUGINS] Loaded plugin ${plugin.name} from ${entry.specifier}`)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        console.error(`[PLUGINS] Failed to load plugin from ${entry.specifier}: ${reason}`)
+        entry.required && failures.push(`${entry.specifier}: ${reason}`)
+      }
+    }
+
+    if (failures.length) {
+      throw new Error(`Required plugins failed to load:\n  ${failures.join('\n  ')}`)
+    }
+  }
+
+  /**
+   * Watches the directory and reloads plugins whose files are added, changed,
+   * removed or renamed. Live sessions keep flowing while plugins are swapped.
+   */
+  watch(): void {
+    if (this.watcher) return
+
+    try {
+      this.watcher = Deno.watchFs(this.directory)
+    } catch (error) {
+      console.error('[PLUGINS] Failed to watch plugins directory:', error)
+      return
+    }
+
+    console.log(`[PLUGINS] Watching ${this.directory} for changes`)
+    ;(async () => {
+      for await (const { paths } of this.watcher!) {
+        paths
+          .map((path) => path.split(/[\\/]/).pop()!)
+          .filter((name) => this.isPluginFile(name) || this.loadedPlugins.has(name))
+          .forEach(this.scheduleReload)
+      }
+    })().catch((error) => {
+      console.error('[PLUGINS] Plugin watcher stopped:', error)
+    })
+  }
+
+  /**
+   * Stops watching the plugins directory
+   */
+  close(): void {
+    this.pendingReloads.forEach(clearTimeout)
+    this.pendingReloads.clear()
+    this.watcher?.close()
+    this.watcher = null
+  }
+
+  // Editors emit several events per save, so reloads are debounced per file
+  private scheduleReload = (name: string): void => {
+    clearTimeout(this.pendingReloads.get(name))
+    this.pendingReloads.set(
+      name,
+      setTimeout(() => {
+        this.pendingReloads.delete(name)
+        this.reload(name).catch((error) =>
+          console.error(`[PLUGINS] Failed to reload plugin from ${name}:`, error)
+        )
+      }, PLUGIN_LOADER.RELOAD_DEBOUNCE_MS),
+    )
+  }
+
+  // A changed file replaces its plugin only once it loads, so saving a broken
+  // edit keeps the previous version running
+  private async reload(name: string): Promise<void> {
+    const previous = this.loadedPlugins.get(name)
+    const exists = await Deno.stat(resolve(this.directory, name))
+      .then(({ isFile }) => isFile)
+      .catch(() => false)
+
+    if (exists && !this.isDisabled(name)) {
+      await this.load(name, previous)
+      console.log(`[PLUGINS] Plugin order: ${this.pluginManager.getPluginOrder().join(' → ')}`)
+    } else if (previous) {
+      this.loadedPlugins.delete(name)
+      await this.pluginManager.unregisterPlugin(previous)
+      console.log(`[PLUGINS] Unloaded plugin from ${name}`)
+    }
+  }
+
+  private async load(name: string, previous?: CDPPlugin): Promise<void> {
+    const keeping = previous ? ', keeping the previous version' : ''
+    try {
+      // The query string busts the module cache so changed files are re-imported
+      const url = toFileUrl(resolve(this.directory, name))
+      url.searchParams.set('v', String(Date.now()))
+
+      const plugin = this.isolated
+        ? await WorkerPlugin.create(url.href)
+        : await this.importPlugin(url)
+      if (!plugin) {
+        previous && console.error(`[PLUGINS] No plugin class exported from ${name}${keeping}`)
+        return
+      }
+
+      const registered = previous
+        ? await this.pluginManager.replacePlugin(previous, plugin)
+        : (this.pluginManager.registerPlugin(plugin), this.pluginManager.getPlugins().includes(plugin))
+      if (!registered) {
+        console.error(`[PLUGINS] Plugin from ${name} was rejected by the plugin manager${keeping}`)
+        await plugin.cleanup?.()
+        return
+      }
+
+      this.loadedPlugins.set(name, plugin)
+      console.log(`[PLUGINS] ${previous ? 'Reloaded' : 'Loaded'} plugin from ${name}`)
+    } catch (error) {
+      console.error(`[PLUGINS] Failed to load plugin from ${name}${keeping}:`, error)
+    }
+  }
+
+  private async loadEntry(entry: PluginManifestEntry, baseUrl: URL): Promise<CDPPlugin> {
+    const url = this.resolveSpecifier(entry.specifier, baseUrl)
+    const plugin = this.isolated
+      ? await WorkerPlugin.create(url.href, entry.export)
+      : await this.importPlugin(url, entry.export)
+    if (!plugin) {
+      throw new Error(`No plugin class exported${entry.export ? ` as ${entry.export}` : ''}`)
+    }
+
+    if (entry.dryRun !== undefined) plugin.dryRun = entry.dryRun
+    this.pluginManager.registerPlugin(plugin, entry.options)
+    if (!this.pluginManager.getPlugins().includes(plugin)) {
+      // Stops the worker of an isolated plugin
+      await plugin.cleanup?.()
+      throw new Error(`Plugin ${plugin.name} was rejected by the plugin manager`)
+    }
+    return plugin
+  }
+
+  // URLs and `jsr:`/`npm:` specifiers are imported as they are, paths are
+  // relative to the manifest. Drive letters aren't mistaken for schemes.
+  private resolveSpecifier = (specifier: string, baseUrl: URL): URL =>
+    /^[a-z][a-z0-9+.-]+:/i.test(specifier)
+      ? new URL(specifier)
+      : toFileUrl(resolve(fromFileUrl(baseUrl), specifier))
+
+  private async importPlugin(url: URL, exportName?: string): Promise<CDPPlugin | undefined> {
+    const module = await import(url.href)
+    const PluginClass = exportName
+      ? module?.[exportName]
+      : module?.default ?? Object.values(module ?? {})[0]
+    return typeof PluginClass === 'function' ? new PluginClass() : undefined
+  }
+
+  private isPluginFile = (name: string): boolean =>
+    /\.[jt]s$/.test(name) && !this.isDisabled(name)
+
+  private isDisabled = (name: string): boolean =>
+    name.toLowerCase().includes('.disabled.')
+}
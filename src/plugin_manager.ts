@@ -4,20 +4,80 @@ import type {
   CDPCommandResponse,
   CDPEvent,
   CDPMessage,
+  CDPMessageOrigin,
+  CDPTargetInfo,
+  PluginConfig,
+  PluginConfigSources,
+  PluginContext,
+  PluginDryRunOutcome,
+  PluginDryRunRecord,
+  PluginHoldOptions,
+  PluginHoldTimeoutPolicy,
+  PluginHookName,
+  PluginHookResult,
+  PluginLifecycleHookName,
+  PluginMessageHookName,
+  PluginMethodHandler,
+  PluginProfiles,
+  Session,
+  SessionLifecycleEvent,
 } from './types.ts'
 import type { ErrorHandler } from './error_handler.ts'
 import type { SessionManager } from './session_manager.ts'
 import type { WebSocketManager } from './websocket_manager.ts'
+import { SchemaValidator } from './schema_validator.ts'
 import { CDPErrorType } from './types.ts'
 import { BaseCDPPlugin } from './base_cdp_plugin.ts'
+import { getMessageMetadata, matchesPlugin } from './plugin_matcher.ts'
+import { resolvePluginConfig } from './plugin_config.ts'
+import { parsePluginSelection } from './plugin_selection.ts'
+import { diffJson } from './json_diff.ts'
+import { checkPluginApiVersion, getPluginApiVersion } from './plugin_api.ts'
+import { PLUGIN_MANAGER, WEBSOCKET_MANAGER } from './constants.ts'
 
-type PluginMethod = 'onRequest' | 'onResponse' | 'onEvent'
+type PluginMethod = PluginHookName
 type PluginError = {
   name: string
   message: string
   stack?: string
 }
 
+interface PluginCircuitState {
+  failures: number[] // Timestamps of recent timeouts and errors
+  openUntil?: number // Plugin is skipped until this time
+}
+
+class PluginTimeoutError extends Error {
+  constructor(plugin: CDPPlugin, method: PluginMethod, timeout: number) {
+    super(`Plugin ${plugin.name} timed out in ${method} after ${timeout}ms`)
+    this.name = 'PluginTimeoutError'
+  }
+}
+
+interface TrackedTarget {
+  targetInfo: CDPTargetInfo
+  origin: CDPMessageOrigin // Where the attach event was received
+}
+
+interface PluginCustomMethod {
+  plugin: CDPPlugin
+  handler: PluginMethodHandler
+}
+
+/**
+ * A message a plugin parked, with what it needs to continue where it stopped
+ */
+interface HeldMessage {
+  message: CDPMessage
+  method: PluginMessageHookName
+  origin: CDPMessageOrigin
+  holder: CDPPlugin
+  plugins: CDPPlugin[] // Plugins after the holder
+  skip?: CDPPlugin
+  receivedAt: number
+  timeoutId: number
+}
+
 interface PluginRequestPromise {
   resolve: (value: CDPCommandResponse) => void
   reject: (reason?: unknown) => void
@@ -30,21 +90,47 @@ interface PluginRequestPromise {
 export class PluginManager {
   private static readonly PLUGIN_ERROR_CODE = 2002
   private static readonly INVALID_PLUGIN_CODE = 2001
-  private static readonly PLUGIN_MESSAGE_ID_BASE = 1000000000
+  private static readonly PLUGIN_MESSAGE_ID_BASE = WEBSOCKET_MANAGER.PLUGIN_COMMAND_ID_BASE
   private static readonly PLUGIN_COMMAND_TIMEOUT = 5000 // 5 seconds
   private static readonly CLEANUP_TIMEOUT = 5000 // 5 seconds
+  private static readonly PLUGIN_ORDER_ERROR_CODE = 2003
+  private static readonly PLUGIN_TIMEOUT_CODE = 2004
+  private static readonly PLUGIN_CIRCUIT_OPEN_CODE = 2005
+  private static readonly PLUGIN_METHOD_CONFLICT_CODE = 2006
+  private static readonly CUSTOM_METHOD_ERROR_CODE = -32000 // CDP server error
+  private static readonly PLUGIN_CONFIG_ERROR_CODE = 2007
+  private static readonly PLUGIN_HOLD_TIMEOUT_CODE = 2008
+  private static readonly PLUGIN_API_VERSION_CODE = 2009
+  static readonly DEFAULT_PRIORITY = 100
 
   private readonly plugins: CDPPlugin[] = []
   private pluginMessageIdCounter = PluginManager.PLUGIN_MESSAGE_ID_BASE
   private readonly pluginRequestIdMap = new Map<number, PluginRequestPromise>()
+  private readonly targets = new Map<string, TrackedTarget>()
+  private readonly circuitStates = new Map<CDPPlugin, PluginCircuitState>()
+  private readonly customMethods = new Map<string, PluginCustomMethod>()
+  // Keyed by proxy session and hold key
+  private readonly heldMessages = new Map<string, HeldMessage[]>()
+  private configSources: PluginConfigSources = {}
+  private pluginProfiles: PluginProfiles = {}
+  private readonly dryRunRecords: PluginDryRunRecord[] = []
 
   constructor(
     private readonly errorHandler: ErrorHandler,
     private readonly sessionManager: SessionManager,
     private readonly wsManager: WebSocketManager,
-  ) {}
+    // Validates plugin configs and rejects custom methods that shadow real
+    // protocol commands
+    private readonly validator: SchemaValidator = new SchemaValidator(),
+  ) {
+    this.sessionManager.addSessionListener(this.handleSessionChange)
+  }
 
-  registerPlugin(plugin: CDPPlugin): void {
+  /**
+   * Adds a plugin to the chain
+   * @param options Options from the plugin's manifest entry
+   */
+  registerPlugin(plugin: CDPPlugin, options?: PluginConfig): void {
     if (!this.isValidPlugin(plugin)) {
       this.errorHandler.handleError({
         type: CDPErrorType.PLUGIN,
@@ -68,99 +154,842 @@ export class PluginManager {
       return;
     }
 
+    if (!this.negotiateApiVersion(plugin)) return
+    if (!this.configurePlugin(plugin, options)) return
+    if (!this.registerCustomMethods(plugin)) return
+
     // Inject helper methods before adding plugin
     this.injectPluginHelpers(plugin)
+    plugin.enabledState = { enabled: true, sessions: {} }
     this.plugins.push(plugin)
+    this.sortPlugins()
   }
 
-  unregisterPlugin(plugin: CDPPlugin): void {
+  /**
+   * Sets where plugin configuration is read from. Applies to plugins
+   * registered afterwards.
+   */
+  setConfigSources(sources: PluginConfigSources): void {
+    this.configSources = sources
+  }
+
+  /**
+   * Sets the named plugin sets clients can select with `?profile=`
+   */
+  setPluginProfiles(profiles: PluginProfiles): void {
+    this.pluginProfiles = profiles
+  }
+
+  /**
+   * Resolves the plugins a client selected in its connection URL
+   * @returns The selected plugin names, or undefined for all plugins
+   * @throws Error when the URL names an unknown plugin or profile
+   */
+  selectPlugins(url: URL): string[] | undefined {
+    const selection = parsePluginSelection(url, this.pluginProfiles)
+    const unknown = selection?.filter((name) => !this.plugins.some((plugin) => plugin.name === name))
+    if (unknown?.length) {
+      throw new Error(`Unknown plugins: ${unknown.join(', ')}`)
+    }
+    return selection
+  }
+
+  /**
+   * Removes a plugin from the chain and waits for its cleanup. The plugin
+   * stops receiving messages immediately.
+   */
+  async unregisterPlugin(plugin: CDPPlugin): Promise<void> {
     const index = this.plugins.indexOf(plugin)
-    if (index !== -1) {
-      // Call cleanup if plugin implements it
-      if ('cleanup' in plugin && typeof plugin.cleanup === 'function') {
-        try {
-          const result = plugin.cleanup()
-          // Handle async cleanup
-          if (result instanceof Promise) {
-            result.catch(error => {
-              this.handlePluginError(plugin, 'cleanup', error)
-            })
-          }
-        } catch (error) {
-          this.handlePluginError(plugin, 'cleanup', error)
-        }
+    if (index === -1) return
+
+    this.plugins.splice(index, 1)
+    this.circuitStates.delete(plugin)
+    this.unregisterCustomMethods(plugin)
+    this.releaseHeldBy(plugin)
+    if (typeof plugin.cleanup !== 'function') return
+
+    try {
+      await plugin.cleanup()
+    } catch (error) {
+      this.handlePluginError(plugin, 'cleanup', error)
+    }
+  }
+
+  /**
+   * Swaps a registered plugin for a new instance, such as a reloaded version
+   * of it, without a gap in the chain. The new instance keeps whether the
+   * plugin was enabled.
+   * @returns false when the new plugin was rejected, the previous one stays
+   * registered then
+   */
+  async replacePlugin(previous: CDPPlugin, next: CDPPlugin, options?: PluginConfig): Promise<boolean> {
+    if (!this.plugins.includes(previous)) {
+      this.registerPlugin(next, options)
+      return this.plugins.includes(next)
+    }
+
+    // The new version usually defines the same custom methods
+    this.unregisterCustomMethods(previous)
+    this.registerPlugin(next, options)
+    if (!this.plugins.includes(next)) {
+      this.registerCustomMethods(previous)
+      return false
+    }
+
+    // Disabling it at runtime, for all sessions or some, outlasts the reload
+    next.enabledState = previous.enabledState ?? next.enabledState
+    await this.unregisterPlugin(previous)
+    return true
+  }
+
+  /**
+   * Turns a plugin's message hooks and custom methods back on, for one proxy
+   * session or, without one, for every session
+   * @throws Error when no registered plugin has the name
+   */
+  enablePlugin = (name: string, proxySessionId?: string): void =>
+    this.setPluginEnabled(name, true, proxySessionId)
+
+  /**
+   * Skips a plugin's message hooks and custom methods without unloading it,
+   * for one proxy session or, without one, for every session. Lifecycle hooks
+   * still run, so the plugin's state is up to date when it's enabled again.
+   * @throws Error when no registered plugin has the name
+   */
+  disablePlugin = (name: string, proxySessionId?: string): void =>
+    this.setPluginEnabled(name, false, proxySessionId)
+
+  private setPluginEnabled(name: string, enabled: boolean, proxySessionId?: string): void {
+    const plugins = this.plugins.filter((plugin) => plugin.name === name)
+    if (!plugins.length) {
+      throw new Error(`Unknown plugin: ${name}`)
+    }
+
+    for (const plugin of plugins) {
+      const state = plugin.enabledState!
+      if (proxySessionId) {
+        state.sessions[proxySessionId] = enabled
+      } else {
+        // Setting the default replaces every session's override
+        plugin.enabledState = { enabled, sessions: {} }
       }
-      this.plugins.splice(index, 1)
     }
+
+    console.log(
+      `[PLUGINS] ${enabled ? 'Enabled' : 'Disabled'} plugin ${name}` +
+        (proxySessionId ? ` for session ${proxySessionId}` : ''),
+    )
+  }
+
+  // Whether the plugin is enabled and was selected by the session's client
+  private isPluginActive = (plugin: CDPPlugin, proxySessionId?: string): boolean => {
+    const { enabled = true, sessions = {} } = plugin.enabledState ?? {}
+    const selected = proxySessionId
+      ? this.sessionManager.findSession(proxySessionId)?.plugins
+      : undefined
+
+    return (!selected || selected.includes(plugin.name)) &&
+      ((proxySessionId ? sessions[proxySessionId] : undefined) ?? enabled)
   }
 
+  /**
+   * Runs a client request through the plugin chain. Resolves to a response
+   * instead when a plugin answers the request itself, and to an array when
+   * plugins split it into several messages.
+   */
   async processRequest(
     request: CDPCommandRequest,
-  ): Promise<CDPCommandRequest | null> {
-    return this.processPluginChain(request, 'onRequest')
+    origin: CDPMessageOrigin = { direction: 'client' },
+  ): Promise<PluginHookResult<CDPCommandRequest | CDPCommandResponse>> {
+    return this.collapse(
+      await this.processPluginChain(request, 'onRequest', origin),
+    ) as PluginHookResult<CDPCommandRequest | CDPCommandResponse>
   }
 
   async processResponse(
     response: CDPCommandResponse,
-  ): Promise<CDPCommandResponse | null> {
-    return this.processPluginChain(response, 'onResponse')
+    origin: CDPMessageOrigin = { direction: 'chrome' },
+  ): Promise<PluginHookResult<CDPCommandResponse>> {
+    return this.collapse(
+      await this.processPluginChain(response, 'onResponse', origin),
+    ) as PluginHookResult<CDPCommandResponse>
   }
 
-  async processEvent(event: CDPEvent): Promise<CDPEvent | null> {
-    return this.processPluginChain(event, 'onEvent')
+  async processEvent(
+    event: CDPEvent,
+    origin: CDPMessageOrigin = { direction: 'chrome' },
+  ): Promise<PluginHookResult<CDPEvent>> {
+    await this.trackTarget(event, origin)
+    return this.collapse(
+      await this.processPluginChain(event, 'onEvent', origin),
+    ) as PluginHookResult<CDPEvent>
   }
 
-  async processMessage(message: unknown): Promise<CDPMessage | null> {
+  /**
+   * Runs any message through the matching plugin hooks
+   * @returns The messages to deliver, in order. Empty when the message was
+   * dropped.
+   */
+  async processMessage(
+    message: unknown,
+    origin?: CDPMessageOrigin,
+  ): Promise<CDPMessage[]> {
     const cdpMessage = message as CDPMessage
-    let processedMessage: CDPMessage | null = cdpMessage
 
-    for (const plugin of this.plugins) {
-      if (!processedMessage || plugin._state?.cleaning) continue
-      
+    if ('method' in cdpMessage && 'id' in cdpMessage) {
+      return this.processPluginChain(cdpMessage, 'onRequest', origin ?? { direction: 'client' })
+    }
+
+    if ('method' in cdpMessage) {
+      const eventOrigin = origin ?? { direction: 'chrome' }
+      await this.trackTarget(cdpMessage, eventOrigin)
+      return this.processPluginChain(cdpMessage, 'onEvent', eventOrigin)
+    }
+
+    return 'id' in cdpMessage
+      ? this.processPluginChain(cdpMessage, 'onResponse', origin ?? { direction: 'chrome' })
+      : [cdpMessage]
+  }
+
+  // Returns results in the same shape a hook would
+  private collapse = (messages: CDPMessage[]): PluginHookResult<CDPMessage> =>
+    messages.length > 1 ? messages : messages[0] ?? null
+
+  /**
+   * Passes a message through each plugin in turn. When a hook returns several
+   * messages, each of them continues through the remaining plugins.
+   */
+  private async processPluginChain(
+    initial: CDPMessage,
+    method: PluginMessageHookName,
+    origin: CDPMessageOrigin,
+    // Snapshot so plugins can be swapped while messages are in flight
+    plugins: CDPPlugin[] = [...this.plugins],
+    skip?: CDPPlugin,
+  ): Promise<CDPMessage[]> {
+    let current = initial
+    const context = this.createContext(initial, origin)
+
+    for (const [index, plugin] of plugins.entries()) {
+      const handler = plugin[method] as
+        | ((data: CDPMessage, context: PluginContext) => Promise<PluginHookResult<CDPMessage>>)
+        | undefined
+      if (!handler || plugin === skip || plugin._state?.cleaning) continue
+      if (this.isCircuitOpen(plugin)) continue
+      if (!this.isPluginActive(plugin, origin.proxySessionId)) continue
+      if (!this.isPluginMatch(plugin, current, origin)) continue
+
+      let hold: { key: string; options?: PluginHoldOptions } | undefined
+      const hookContext: PluginContext = {
+        ...context,
+        hold: (key, options) => {
+          hold = { key, options }
+          return null
+        },
+      }
+
+      // Plugins in dry-run mode get a copy, so changing it in place is harmless
+      const input = plugin.dryRun ? structuredClone(current) : current
+      let results: CDPMessage[]
       try {
-        processedMessage = await this.processPluginMessage(plugin, processedMessage)
+        const result = await this.runWithTimeout(plugin, method, () =>
+          handler.call(plugin, input, hookContext)
+        )
+        results = this.toMessages(result)
       } catch (error) {
-        this.handlePluginError(plugin, 'processMessage', error)
+        // On timeout or error the message passes through unchanged
+        this.handlePluginError(plugin, method, error)
+        this.recordPluginFailure(plugin)
+        continue
+      }
+
+      if (plugin.dryRun) {
+        this.recordDryRun(plugin, method, current, hold ? undefined : results, origin)
+        continue
+      }
+
+      const remaining = plugins.slice(index + 1)
+      if (hold) {
+        this.holdMessage(hold.key, hold.options, {
+          message: current,
+          method,
+          origin,
+          holder: plugin,
+          plugins: remaining,
+          skip,
+          receivedAt: context.receivedAt,
+        })
+        return []
+      }
+
+      const isSynthetic = method === 'onRequest' && results.some(this.isCommandResponse)
+      if (results.length === 1 && !isSynthetic) {
+        current = results[0]
+        continue
       }
+
+      return this.continueChain(results, {
+        message: current,
+        method,
+        origin,
+        holder: plugin,
+        plugins: remaining,
+        skip,
+        receivedAt: context.receivedAt,
+      })
     }
 
-    return processedMessage
+    const customMethod = method === 'onRequest'
+      ? this.customMethods.get((current as CDPCommandRequest).method)
+      : undefined
+    return customMethod && this.isPluginActive(customMethod.plugin, origin.proxySessionId)
+      ? this.handleCustomMethod(current as CDPCommandRequest, origin, context)
+      : [current]
   }
 
-  private async processPluginMessage(plugin: CDPPlugin, message: CDPMessage): Promise<CDPMessage | null> {
-    if ('id' in message) {
-      return 'result' in message || 'error' in message
-        ? await plugin.onResponse?.(message as CDPCommandResponse) ?? message
-        : await plugin.onRequest?.(message as CDPCommandRequest) ?? message
+  /**
+   * Logs and keeps what a plugin in dry-run mode would have done with a
+   * message. Unchanged messages aren't recorded.
+   * @param results What the hook returned, undefined when it held the message
+   */
+  private recordDryRun(
+    plugin: CDPPlugin,
+    hook: PluginMessageHookName,
+    message: CDPMessage,
+    results: CDPMessage[] | undefined,
+    origin: CDPMessageOrigin,
+  ): void {
+    const isReplaced = results &&
+      (results.length > 1 || (hook === 'onRequest' && results.some(this.isCommandResponse)))
+    const diff = results?.length === 1 && !isReplaced ? diffJson(message, results[0]) : undefined
+    if (diff && !diff.length) return
+
+    const outcome: PluginDryRunOutcome = !results
+      ? 'held'
+      : !results.length
+      ? 'dropped'
+      : isReplaced
+      ? 'replaced'
+      : 'changed'
+    const record: PluginDryRunRecord = {
+      plugin: plugin.name,
+      hook,
+      outcome,
+      // Plugins further down the chain may still change the message
+      message: structuredClone(message),
+      ...(diff && { diff }),
+      ...(isReplaced && { results }),
+      proxySessionId: origin.proxySessionId,
+      timestamp: Date.now(),
     }
-    
-    return 'method' in message
-      ? await plugin.onEvent?.(message as CDPEvent) ?? message
-      : message
+
+    this.dryRunRecords.push(record)
+    this.dryRunRecords.length > PLUGIN_MANAGER.DRY_RUN_RECORD_LIMIT && this.dryRunRecords.shift()
+    console.log(
+      `[PLUGINS] Dry run: ${plugin.name} would have ${outcome} ${
+        'method' in message ? message.method : `the response to ${message.id}`
+      }`,
+      ...(diff ? [diff] : isReplaced ? [results] : []),
+    )
   }
 
-  private async processPluginChain<T>(
-    initial: T,
-    method: PluginMethod,
-  ): Promise<T | null> {
-    let current: T | null = initial
+  /**
+   * Returns what plugins in dry-run mode would have done, oldest first
+   * @param pluginName Only returns the records of this plugin
+   */
+  getDryRunRecords = (pluginName?: string): PluginDryRunRecord[] =>
+    this.dryRunRecords.filter(({ plugin }) => !pluginName || plugin === pluginName)
 
-    for (const plugin of this.plugins) {
+  clearDryRunRecords = (): void => {
+    this.dryRunRecords.length = 0
+  }
+
+  private toMessages = (result: PluginHookResult<CDPMessage> | undefined): CDPMessage[] =>
+    result === null || result === undefined ? [] : Array.isArray(result) ? result : [result]
+
+  /**
+   * Passes what a plugin returned for a message through the plugins after it.
+   * Responses to a request answer it, as if Chrome had sent them.
+   */
+  private async continueChain(
+    results: CDPMessage[],
+    { message, method, origin, holder, plugins, skip, receivedAt }: Omit<HeldMessage, 'timeoutId'>,
+  ): Promise<CDPMessage[]> {
+    const outputs: CDPMessage[] = []
+    for (const result of results) {
+      outputs.push(
+        ...(method === 'onRequest' && this.isCommandResponse(result)
+          ? await this.respondToRequest(
+              message as CDPCommandRequest,
+              result,
+              { ...origin, latency: Date.now() - receivedAt },
+              holder,
+            )
+          : await this.processPluginChain(result, method, origin, plugins, skip)),
+      )
+    }
+    return outputs
+  }
+
+  /**
+   * Parks a message until its holder releases or drops it, or it times out
+   */
+  private holdMessage(
+    key: string,
+    { timeout = PLUGIN_MANAGER.HOLD_TIMEOUT_MS, onTimeout = 'release' }: PluginHoldOptions = {},
+    held: Omit<HeldMessage, 'timeoutId'>,
+  ): void {
+    const heldKey = this.getHeldKey(held.origin.proxySessionId, key)
+    const entry: HeldMessage = {
+      ...held,
+      timeoutId: setTimeout(() => this.expireHeldMessage(heldKey, entry, onTimeout, timeout), timeout),
+    }
+    this.heldMessages.set(heldKey, [...(this.heldMessages.get(heldKey) ?? []), entry])
+  }
+
+  /**
+   * Lets the messages held under a key continue through the plugins after
+   * their holder and delivers them. A replacement continues in place of all
+   * of them.
+   */
+  async releaseHeldMessages(
+    proxySessionId: string,
+    key: string,
+    replacement?: PluginHookResult<CDPMessage>,
+  ): Promise<void> {
+    const entries = this.takeHeldMessages(this.getHeldKey(proxySessionId, key))
+    if (replacement === undefined) {
+      for (const entry of entries) await this.resumeHeldMessage(entry, [entry.message])
+    } else if (entries.length) {
+      await this.resumeHeldMessage(entries[0], this.toMessages(replacement))
+    }
+  }
+
+  /**
+   * Discards the messages held under a key
+   */
+  dropHeldMessages(proxySessionId: string, key: string): void {
+    this.takeHeldMessages(this.getHeldKey(proxySessionId, key))
+  }
+
+  private getHeldKey = (proxySessionId = '', key: string): string =>
+    JSON.stringify([proxySessionId, key])
+
+  private takeHeldMessages(heldKey: string): HeldMessage[] {
+    const entries = this.heldMessages.get(heldKey) ?? []
+    this.heldMessages.delete(heldKey)
+    entries.forEach(({ timeoutId }) => clearTimeout(timeoutId))
+    return entries
+  }
+
+  private async resumeHeldMessage(entry: HeldMessage, messages: CDPMessage[]): Promise<void> {
+    const { origin } = entry
+    const outputs = await this.continueChain(messages, entry)
+    origin.proxySessionId &&
+      this.wsManager.deliverMessages(origin.proxySessionId, outputs, origin.direction, origin.path)
+  }
+
+  private expireHeldMessage(
+    heldKey: string,
+    entry: HeldMessage,
+    policy: PluginHoldTimeoutPolicy,
+    timeout: number,
+  ): void {
+    const remaining = (this.heldMessages.get(heldKey) ?? []).filter((held) => held !== entry)
+    remaining.length ? this.heldMessages.set(heldKey, remaining) : this.heldMessages.delete(heldKey)
+
+    const { message, holder } = entry
+    const reason = `Message held by plugin ${holder.name} timed out after ${timeout}ms`
+    this.errorHandler.handleError({
+      type: CDPErrorType.PLUGIN,
+      code: PluginManager.PLUGIN_HOLD_TIMEOUT_CODE,
+      message: `${reason}, applying ${policy} policy`,
+      recoverable: true,
+      details: { plugin: holder.name, key: JSON.parse(heldKey)[1], message },
+    })
+
+    const resumed = policy === 'release'
+      ? [message]
+      : policy === 'error' && entry.method === 'onRequest'
+      ? [{
+        id: (message as CDPCommandRequest).id,
+        error: {
+          type: CDPErrorType.PROTOCOL,
+          code: PluginManager.CUSTOM_METHOD_ERROR_CODE,
+          message: reason,
+          recoverable: true,
+        },
+      }]
+      : []
+
+    resumed.length &&
+      this.resumeHeldMessage(entry, resumed).catch((error) =>
+        console.error(`[PLUGINS] Failed to resume held message:`, error)
+      )
+  }
+
+  // An unloaded plugin can't release what it holds anymore
+  private releaseHeldBy(plugin: CDPPlugin): void {
+    this.heldMessages.forEach((entries, heldKey) => {
+      if (!entries.some(({ holder }) => holder === plugin)) return
+      const [proxySessionId, key] = JSON.parse(heldKey)
+      this.releaseHeldMessages(proxySessionId, key).catch((error) =>
+        console.error(`[PLUGINS] Failed to release held messages:`, error)
+      )
+    })
+  }
+
+  /**
+   * Answers a request for a plugin-defined method. The response runs through
+   * the other plugins' `onResponse` hooks like any synthetic response.
+   */
+  private async handleCustomMethod(
+    request: CDPCommandRequest,
+    origin: CDPMessageOrigin,
+    context: PluginContext,
+  ): Promise<CDPMessage[]> {
+    const { plugin, handler } = this.customMethods.get(request.method)!
+
+    let response: CDPCommandResponse
+    try {
+      const result = await this.runWithTimeout(plugin, 'onRequest', () =>
+        handler.call(plugin, request.params ?? {}, context)
+      )
+      response = { id: request.id, result: result ?? {} }
+    } catch (error) {
+      this.handlePluginError(plugin, request.method, error)
+      response = {
+        id: request.id,
+        error: {
+          type: CDPErrorType.PROTOCOL,
+          code: PluginManager.CUSTOM_METHOD_ERROR_CODE,
+          message: error instanceof Error ? error.message : String(error),
+          recoverable: true,
+        },
+      }
+    }
+
+    return this.respondToRequest(
+      request,
+      response,
+      { ...origin, latency: Date.now() - context.receivedAt },
+      plugin,
+    )
+  }
+
+  /**
+   * Rejects plugins written for an unsupported plugin API version
+   * @returns false when the plugin can't be loaded
+   */
+  private negotiateApiVersion(plugin: CDPPlugin): boolean {
+    const incompatibility = checkPluginApiVersion(plugin)
+    if (incompatibility) {
+      this.errorHandler.handleError({
+        type: CDPErrorType.PLUGIN,
+        code: PluginManager.PLUGIN_API_VERSION_CODE,
+        message: incompatibility,
+        recoverable: true,
+        details: { plugin: plugin.name, apiVersion: getPluginApiVersion(plugin) },
+      })
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Resolves a plugin's configuration and validates it against the plugin's
+   * schema
+   * @returns false when the configuration is invalid
+   */
+  private configurePlugin(plugin: CDPPlugin, options?: PluginConfig): boolean {
+    const config = resolvePluginConfig(plugin, this.configSources, options)
+
+    if (plugin.configSchema) {
       try {
-        const handler = plugin[method] as
-          | ((data: T) => Promise<T | null>)
-          | undefined
-        if (handler) {
-          const result = await handler(current!)
-          if (!result) return null
-          current = result
-        }
+        this.validator.validateValue(config, plugin.configSchema)
       } catch (error) {
-        this.handlePluginError(plugin, method, error)
+        const reason = error instanceof Error ? error.message : String(error)
+        this.errorHandler.handleError({
+          type: CDPErrorType.PLUGIN,
+          code: PluginManager.PLUGIN_CONFIG_ERROR_CODE,
+          message: `Invalid configuration for plugin ${plugin.name}: ${reason}`,
+          recoverable: true,
+          details: { plugin: plugin.name, config },
+        })
+        return false
       }
     }
 
-    return current
+    plugin.config = config
+    return true
+  }
+
+  /**
+   * Adds a plugin's custom methods to the registry
+   * @returns false, registering nothing, when a method is already taken
+   */
+  private registerCustomMethods(plugin: CDPPlugin): boolean {
+    const methods = Object.keys(plugin.customMethods ?? {})
+    const conflict = methods.find(
+      (method) =>
+        this.customMethods.has(method) || this.validator.hasCommand(method),
+    )
+
+    if (conflict) {
+      const owner = this.customMethods.get(conflict)?.plugin.name ?? 'the CDP protocol'
+      this.errorHandler.handleError({
+        type: CDPErrorType.PLUGIN,
+        code: PluginManager.PLUGIN_METHOD_CONFLICT_CODE,
+        message: `Plugin ${plugin.name} cannot define ${conflict}: already defined by ${owner}`,
+        recoverable: true,
+        details: { plugin: plugin.name, method: conflict, owner },
+      })
+      return false
+    }
+
+    methods.forEach((method) =>
+      this.customMethods.set(method, { plugin, handler: plugin.customMethods![method] })
+    )
+    return true
+  }
+
+  private unregisterCustomMethods(plugin: CDPPlugin): void {
+    this.customMethods.forEach((entry, method) =>
+      entry.plugin === plugin && this.customMethods.delete(method)
+    )
+  }
+
+  private runWithTimeout = <T>(
+    plugin: CDPPlugin,
+    method: PluginMethod,
+    run: () => Promise<T>,
+  ): Promise<T> => {
+    const { hookTimeouts } = plugin
+    const timeout =
+      (typeof hookTimeouts === 'number' ? hookTimeouts : hookTimeouts?.[method]) ??
+        PLUGIN_MANAGER.HOOK_TIMEOUT_MS
+
+    let timeoutId: number | undefined
+    return Promise.race([
+      run(),
+      new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(
+          () => reject(new PluginTimeoutError(plugin, method, timeout)),
+          timeout,
+        )
+      }),
+    ]).finally(() => clearTimeout(timeoutId))
+  }
+
+  /**
+   * Records a timeout or error and trips the plugin's circuit breaker once
+   * the PLUGIN error threshold is reached within the window
+   */
+  private recordPluginFailure(plugin: CDPPlugin): void {
+    const now = Date.now()
+    const state = this.circuitStates.get(plugin) ?? { failures: [] }
+    state.failures = [
+      ...state.failures.filter(
+        (time) => now - time < PLUGIN_MANAGER.CIRCUIT_BREAKER_WINDOW_MS,
+      ),
+      now,
+    ]
+    this.circuitStates.set(plugin, state)
+
+    if (state.failures.length < this.errorHandler.getErrorThreshold(CDPErrorType.PLUGIN)) {
+      return
+    }
+
+    state.openUntil = now + PLUGIN_MANAGER.CIRCUIT_BREAKER_COOLDOWN_MS
+    this.errorHandler.handleError({
+      type: CDPErrorType.PLUGIN,
+      code: PluginManager.PLUGIN_CIRCUIT_OPEN_CODE,
+      message: `Plugin ${plugin.name} disabled for ${PLUGIN_MANAGER.CIRCUIT_BREAKER_COOLDOWN_MS}ms after ${state.failures.length} failures`,
+      recoverable: true,
+      details: { plugin: plugin.name, failures: state.failures },
+    })
+  }
+
+  /**
+   * Checks whether a plugin is disabled by its circuit breaker, re-enabling
+   * it once the cooldown has passed
+   */
+  private isCircuitOpen(plugin: CDPPlugin): boolean {
+    const state = this.circuitStates.get(plugin)
+    if (!state?.openUntil) return false
+    if (Date.now() < state.openUntil) return true
+
+    this.circuitStates.delete(plugin)
+    console.log(`[PLUGINS] Re-enabled plugin ${plugin.name} after cooldown`)
+    return false
+  }
+
+  /**
+   * Turns a response returned from `onRequest` into the reply to the
+   * original request and runs it through the other plugins' `onResponse`
+   * hooks, as if Chrome had sent it
+   */
+  private respondToRequest = (
+    request: CDPCommandRequest,
+    response: CDPCommandResponse,
+    origin: CDPMessageOrigin,
+    responder: CDPPlugin,
+  ): Promise<CDPMessage[]> => {
+    const { id, sessionId } = request
+    const synthetic: CDPCommandResponse = sessionId
+      ? { ...response, id, sessionId }
+      : { ...response, id }
+
+    return this.processPluginChain(
+      synthetic,
+      'onResponse',
+      { ...origin, direction: 'chrome', request },
+      [...this.plugins],
+      responder,
+    )
+  }
+
+  /**
+   * Builds the context shared by every plugin hook that handles a message
+   */
+  private createContext = (
+    message: CDPMessage,
+    origin: CDPMessageOrigin,
+  ): PluginContext => {
+    const { proxySessionId, path = '' } = origin
+    const session = proxySessionId
+      ? this.sessionManager.getActiveSessions().find(({ id }) => id === proxySessionId)
+      : undefined
+
+    return {
+      ...origin,
+      sessionId: message.sessionId,
+      targetInfo: message.sessionId ? this.targets.get(message.sessionId)?.targetInfo : undefined,
+      receivedAt: Date.now(),
+      sessionCreatedAt: session?.createdAt,
+      send: (command) =>
+        this.sendCDPCommand(path, proxySessionId ?? '', {
+          ...command,
+          sessionId: command.sessionId ?? message.sessionId,
+          id: 0,
+        }),
+      emit: (event) => this.emitClientEvent(proxySessionId ?? '', event),
+      hold: () => {
+        throw new Error('Only onRequest, onResponse and onEvent can hold messages')
+      },
+      release: (key, replacement) =>
+        this.releaseHeldMessages(proxySessionId ?? '', key, replacement),
+      drop: (key) => this.dropHeldMessages(proxySessionId ?? '', key),
+    }
+  }
+
+  private isPluginMatch = (
+    plugin: CDPPlugin,
+    message: CDPMessage,
+    origin: CDPMessageOrigin,
+  ): boolean =>
+    !plugin.matcher ||
+    matchesPlugin(
+      plugin.matcher,
+      getMessageMetadata(
+        message,
+        origin,
+        message.sessionId ? this.targets.get(message.sessionId)?.targetInfo.type : undefined,
+      ),
+    )
+
+  /**
+   * Remembers the target behind each CDP sessionId so matchers and plugin
+   * contexts can refer to it, and tells plugins when targets come and go
+   */
+  private trackTarget = async (
+    { method, params }: CDPEvent,
+    origin: CDPMessageOrigin,
+  ): Promise<void> => {
+    const { sessionId, targetInfo } = (params ?? {}) as {
+      sessionId?: string
+      targetInfo?: CDPTargetInfo
+    }
+    if (!sessionId) return
+
+    // Every connection that attached sees the event, plugins hear of it once
+    if (method === 'Target.attachedToTarget' && targetInfo && !this.targets.has(sessionId)) {
+      this.targets.set(sessionId, { targetInfo, origin })
+      await this.runTargetHook('onTargetAttached', sessionId)
+    } else if (method === 'Target.detachedFromTarget' && this.targets.has(sessionId)) {
+      await this.runTargetHook('onTargetDetached', sessionId)
+      this.targets.delete(sessionId)
+    }
+  }
+
+  /**
+   * Notifies plugins of a target, with a context bound to the target's own
+   * CDP session
+   */
+  private runTargetHook = (
+    hook: 'onTargetAttached' | 'onTargetDetached',
+    sessionId: string,
+  ): Promise<void> => {
+    const { targetInfo, origin } = this.targets.get(sessionId)!
+    const context = this.createContext({ method: hook, sessionId }, origin)
+    return this.runLifecycleHook(hook, (plugin) =>
+      plugin[hook]!(targetInfo, context)
+    )
+  }
+
+  private handleSessionChange = (
+    event: SessionLifecycleEvent,
+    session: Session,
+  ): void => {
+    const run = event === 'created'
+      ? this.runLifecycleHook('onSessionStart', (plugin) => plugin.onSessionStart!(session))
+      : this.endSession(session)
+
+    run.catch((error) =>
+      console.error(`[PLUGINS] Failed to run session hooks for ${session.id}:`, error)
+    )
+  }
+
+  /**
+   * Detaches the targets a closed session attached to, since Chrome's detach
+   * events can no longer reach the proxy, then ends the session
+   */
+  private async endSession(session: Session): Promise<void> {
+    // Held messages have nowhere to go once the session is closed
+    ;[...this.heldMessages.keys()]
+      .filter((heldKey) => JSON.parse(heldKey)[0] === session.id)
+      .forEach((heldKey) => this.takeHeldMessages(heldKey))
+    this.plugins.forEach(({ enabledState }) => delete enabledState?.sessions[session.id])
+
+    const attached = [...this.targets]
+      .filter(([, { origin }]) => origin.proxySessionId === session.id)
+      .map(([sessionId]) => sessionId)
+
+    for (const sessionId of attached) {
+      await this.runTargetHook('onTargetDetached', sessionId)
+      this.targets.delete(sessionId)
+    }
+    await this.runLifecycleHook('onSessionEnd', (plugin) => plugin.onSessionEnd!(session))
+  }
+
+  /**
+   * Calls a lifecycle hook on every plugin that implements it, in plugin
+   * order. Failures are handled like failures of message hooks.
+   */
+  private async runLifecycleHook(
+    hook: PluginLifecycleHookName,
+    run: (plugin: CDPPlugin) => Promise<void>,
+  ): Promise<void> {
+    for (const plugin of [...this.plugins]) {
+      if (!plugin[hook] || plugin._state?.cleaning || this.isCircuitOpen(plugin)) continue
+
+      try {
+        await this.runWithTimeout(plugin, hook, () => run(plugin))
+      } catch (error) {
+        this.handlePluginError(plugin, hook, error)
+        this.recordPluginFailure(plugin)
+      }
+    }
   }
 
   private isValidPlugin = (plugin: CDPPlugin): boolean =>
@@ -173,7 +1002,9 @@ export class PluginManager {
   ): void {
     this.errorHandler.handleError({
       type: CDPErrorType.PLUGIN,
-      code: PluginManager.PLUGIN_ERROR_CODE,
+      code: error instanceof PluginTimeoutError
+        ? PluginManager.PLUGIN_TIMEOUT_CODE
+        : PluginManager.PLUGIN_ERROR_CODE,
       message: `Plugin error in ${method}: ${error instanceof Error ? error.message : String(error)}`,
       recoverable: true,
       details: {
@@ -193,8 +1024,79 @@ export class PluginManager {
         }
       : String(error)
 
+  /**
+   * Returns the registered plugins in execution order. Each plugin's
+   * `enabledState` shows where it's enabled.
+   */
   getPlugins = (): CDPPlugin[] => [...this.plugins]
 
+  /**
+   * Returns the names of the registered plugins in execution order
+   */
+  getPluginOrder = (): string[] => this.plugins.map(({ name }) => name)
+
+  /**
+   * Orders the chain by priority (lower runs first, ties broken by name), then
+   * moves plugins as needed to satisfy their `before`/`after` constraints
+   */
+  private sortPlugins(): void {
+    const byPriority = [...this.plugins].sort(
+      (a, b) =>
+        (a.priority ?? PluginManager.DEFAULT_PRIORITY) -
+          (b.priority ?? PluginManager.DEFAULT_PRIORITY) ||
+        a.name.localeCompare(b.name),
+    )
+
+    // Edges point from a plugin to every plugin that must run after it
+    const successors = new Map<CDPPlugin, Set<CDPPlugin>>(
+      byPriority.map((plugin) => [plugin, new Set()]),
+    )
+    const findByName = (name: string) =>
+      byPriority.filter((plugin) => plugin.name === name)
+
+    for (const plugin of byPriority) {
+      plugin.before?.forEach((name) =>
+        findByName(name).forEach((other) => successors.get(plugin)!.add(other)),
+      )
+      plugin.after?.forEach((name) =>
+        findByName(name).forEach((other) => successors.get(other)!.add(plugin)),
+      )
+    }
+
+    const inDegree = new Map<CDPPlugin, number>(
+      byPriority.map((plugin) => [plugin, 0]),
+    )
+    successors.forEach((next) =>
+      next.forEach((plugin) => inDegree.set(plugin, inDegree.get(plugin)! + 1)),
+    )
+
+    // Kahn's algorithm, always picking the highest priority ready plugin
+    const sorted: CDPPlugin[] = []
+    const remaining = [...byPriority]
+    while (remaining.length) {
+      const index = remaining.findIndex((plugin) => inDegree.get(plugin) === 0)
+      if (index === -1) {
+        this.errorHandler.handleError({
+          type: CDPErrorType.PLUGIN,
+          code: PluginManager.PLUGIN_ORDER_ERROR_CODE,
+          message: 'Circular before/after constraints between plugins, falling back to priority order',
+          recoverable: true,
+          details: { plugins: remaining.map(({ name }) => name) },
+        })
+        sorted.push(...remaining)
+        break
+      }
+
+      const [plugin] = remaining.splice(index, 1)
+      sorted.push(plugin)
+      successors.get(plugin)!.forEach((next) =>
+        inDegree.set(next, inDegree.get(next)! - 1),
+      )
+    }
+
+    this.plugins.splice(0, this.plugins.length, ...sorted)
+  }
+
   hasPlugins = (): boolean => this.plugins.length > 0
 
   clearPlugins = async (): Promise<void> => {
@@ -241,6 +1143,8 @@ export class PluginManager {
       // Clean up any remaining timeouts
       timeouts.forEach(clearTimeout)
       this.plugins.length = 0
+      this.customMethods.clear()
+      ;[...this.heldMessages.keys()].forEach((heldKey) => this.takeHeldMessages(heldKey))
     }
   }
 
@@ -319,7 +1223,15 @@ export class PluginManager {
   }
 
   /**
-   * Emits a CDP event to the client on behalf of a plugin
+   * Checks whether a command id belongs to a command sent by a plugin, whose
+   * response must never reach the client
+   */
+  isPluginCommandId = (id: number): boolean =>
+    id >= PluginManager.PLUGIN_MESSAGE_ID_BASE
+
+  /**
+   * Emits a CDP event to the client on behalf of a plugin, in order with the
+   * messages the client is sent
    */
   async emitClientEvent(
     proxySessionId: string,
@@ -335,13 +1247,9 @@ export class PluginManager {
       throw new Error('Client WebSocket connection is not open')
     }
 
-    try {
-      clientSocket.send(JSON.stringify(event))
-    } catch (error) {
-      throw new Error(
-        `Failed to emit client event: ${error instanceof Error ? error.message : String(error)}`,
-      )
-    }
+    // Waiting for the delivery would deadlock a hook that emits while the
+    // messages ahead of the event wait for it
+    this.wsManager.queueClientEvent(proxySessionId, event)
   }
 
   private isCommandResponse = (msg: CDPMessage): msg is CDPCommandResponse =>
@@ -354,5 +1262,7 @@ export class PluginManager {
     // available via `this` within the plugin.
     plugin.sendCDPCommand = this.sendCDPCommand.bind(this);
     plugin.emitClientEvent = this.emitClientEvent.bind(this);
+    plugin.releaseHeldMessages = this.releaseHeldMessages.bind(this)
+    plugin.dropHeldMessages = this.dropHeldMessages.bind(this)
   }
 }
@@ -0,0 +1,95 @@
+import type {
+  CDPMessage,
+  CDPMessageMetadata,
+  CDPMessageOrigin,
+  PluginMatcher,
+} from './types.ts'
+
+const globCache = new Map<string, RegExp>()
+
+const toArray = <T>(value: T | T[]): T[] =>
+  Array.isArray(value) ? value : [value]
+
+/**
+ * Compiles a method glob such as `Network.*` or `*.enable` into a RegExp
+ */
+const compileGlob = (pattern: string): RegExp => {
+  const cached = globCache.get(pattern)
+  if (cached) return cached
+
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  const regex = new RegExp(`^${source}$`)
+  globCache.set(pattern, regex)
+  return regex
+}
+
+export const matchesGlob = (pattern: string, value: string): boolean =>
+  compileGlob(pattern).test(value)
+
+/**
+ * Infers the target type of a message from the DevTools WebSocket path it
+ * arrived on, e.g. `/devtools/page/<id>` → `page`
+ */
+export const getTargetTypeFromPath = (path?: string): string | undefined =>
+  path?.match(/^\/devtools\/(browser|page)\b/)?.[1]
+
+/**
+ * Builds the metadata the matcher is evaluated against
+ */
+export const getMessageMetadata = (
+  message: CDPMessage,
+  origin: CDPMessageOrigin,
+  targetType?: string,
+): CDPMessageMetadata => ({
+  ...origin,
+  type:
+    'method' in message
+      ? 'id' in message
+        ? 'request'
+        : 'event'
+      : 'response',
+  method: 'method' in message ? message.method : origin.request?.method,
+  sessionId: message.sessionId,
+  targetType: targetType ?? getTargetTypeFromPath(origin.path),
+  message,
+})
+
+/**
+ * Checks whether a message should be dispatched to a plugin with the given
+ * matcher. Responses are matched on the method of the originating request and
+ * only fail a `methods` filter when that request is known.
+ */
+export const matchesPlugin = (
+  matcher: PluginMatcher | undefined,
+  metadata: CDPMessageMetadata,
+): boolean => {
+  if (!matcher) return true
+
+  const { methods, direction, sessionIds, targetTypes, predicate } = matcher
+
+  if (
+    methods &&
+    metadata.method &&
+    !toArray(methods).some((pattern) => matchesGlob(pattern, metadata.method!))
+  ) {
+    return false
+  }
+  if (direction && direction !== metadata.direction) return false
+  if (
+    sessionIds &&
+    (!metadata.sessionId || !toArray(sessionIds).includes(metadata.sessionId))
+  ) {
+    return false
+  }
+  if (
+    targetTypes &&
+    (!metadata.targetType ||
+      !toArray(targetTypes).includes(metadata.targetType))
+  ) {
+    return false
+  }
+  return predicate ? predicate(metadata) : true
+}
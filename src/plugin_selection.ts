@@ -0,0 +1,47 @@
+import type { PluginProfiles } from './types.ts'
+import { PLUGIN_SELECTION } from './constants.ts'
+
+const SELECTION_PARAMS: string[] = [PLUGIN_SELECTION.PLUGINS_PARAM, PLUGIN_SELECTION.PROFILE_PARAM]
+
+/**
+ * Returns the plugin selection query parameters of a proxy URL
+ */
+export const getSelectionParams = (url: URL): URLSearchParams =>
+  new URLSearchParams([...url.searchParams].filter(([name]) => SELECTION_PARAMS.includes(name)))
+
+/**
+ * Returns a copy of a proxy URL without the plugin selection query
+ * parameters, for forwarding to Chrome
+ */
+export const withoutSelectionParams = (url: URL): URL => {
+  const stripped = new URL(url)
+  SELECTION_PARAMS.forEach((name) => stripped.searchParams.delete(name))
+  return stripped
+}
+
+/**
+ * Reads the plugins a client selected with `?plugins=a,b` and
+ * `?profile=name`. Both can be combined and repeated.
+ * @returns The selected plugin names, or undefined when the client didn't
+ * select any so all plugins apply
+ * @throws Error for an unknown profile
+ */
+export const parsePluginSelection = (
+  url: URL,
+  profiles: PluginProfiles,
+): string[] | undefined => {
+  const { searchParams } = url
+  if (!SELECTION_PARAMS.some((name) => searchParams.has(name))) return undefined
+
+  const profileNames = searchParams.getAll(PLUGIN_SELECTION.PROFILE_PARAM)
+  const unknown = profileNames.filter((name) => !Object.hasOwn(profiles, name))
+  if (unknown.length) {
+    throw new Error(`Unknown plugin profile: ${unknown.join(', ')}`)
+  }
+
+  const names = searchParams.getAll(PLUGIN_SELECTION.PLUGINS_PARAM)
+    .flatMap((value) => value.split(','))
+    .map((name) => name.trim())
+    .filter(Boolean)
+  return [...new Set([...profileNames.flatMap((name) => profiles[name]), ...names])]
+}
@@ -0,0 +1,252 @@
+import { ErrorHandler } from './error_handler.ts'
+import { MockWebSocket } from './mock_websocket.ts'
+import { PluginManager } from './plugin_manager.ts'
+import { SchemaValidator } from './schema_validator.ts'
+import { SessionManager } from './session_manager.ts'
+import { WebSocketManager } from './websocket_manager.ts'
+import {
+  CDPErrorType,
+  type CDPCommandRequest,
+  type CDPCommandResponse,
+  type CDPMessage,
+  type CDPPlugin,
+  type FakeChromeReply,
+  type PluginTestHarnessOptions,
+  type Session,
+} from './types.ts'
+import { PLUGIN_TEST_HARNESS, WEBSOCKET_MANAGER } from './constants.ts'
+
+const CDP_SERVER_ERROR_CODE = -32000
+
+/**
+ * Chrome socket that hands every command it is sent to the fake browser
+ */
+class FakeChromeSocket extends MockWebSocket {
+  constructor(
+    url: string,
+    private readonly answer: (request: CDPCommandRequest) => Promise<void>,
+  ) {
+    super(url)
+  }
+
+  override send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+    super.send(data)
+    const message = JSON.parse(String(data)) as CDPMessage
+    'id' in message && 'method' in message && this.answer(message)
+  }
+}
+
+/**
+ * Runs plugins in a real PluginManager and WebSocketManager connected to an
+ * in-memory client and a scriptable fake browser, so plugins can be tested
+ * without Chromium.
+ *
+ * @example
+ * const harness = await PluginTestHarness.create(new MyPlugin())
+ * harness.respond('Browser.getVersion', { product: 'Chrome/120' })
+ * const response = await harness.send('Browser.getVersion')
+ * await harness.close()
+ */
+export class PluginTestHarness {
+  readonly errorHandler = new ErrorHandler()
+  readonly sessionManager = new SessionManager(this.errorHandler)
+  readonly wsManager: WebSocketManager
+  readonly pluginManager: PluginManager
+  readonly client: MockWebSocket
+  readonly chrome: MockWebSocket
+  readonly session: Session
+  private readonly replies = new Map<string, FakeChromeReply>()
+  private nextCommandId = 1
+
+  private constructor(plugins: CDPPlugin[], options: PluginTestHarnessOptions) {
+    const { path = PLUGIN_TEST_HARNESS.PATH, pluginConfig, validator = new SchemaValidator() } =
+      options
+
+    this.wsManager = new WebSocketManager(this.errorHandler, validator, null)
+    this.pluginManager = new PluginManager(
+      this.errorHandler,
+      this.sessionManager,
+      this.wsManager,
+      validator,
+    )
+    this.wsManager.setPluginManager(this.pluginManager)
+    this.pluginManager.setConfigSources({ env: {}, options: pluginConfig })
+    plugins.forEach((plugin) => this.pluginManager.registerPlugin(plugin))
+
+    this.client = new MockWebSocket(`ws://localhost${path}`)
+    this.chrome = new FakeChromeSocket(`ws://localhost:9222${path}`, this.answer)
+    Object.assign(this.client, { _path: path })
+    Object.assign(this.chrome, { _path: path })
+
+    const client = this.client as unknown as WebSocket
+    const chrome = this.chrome as unknown as WebSocket
+    this.session = this.sessionManager.createSession(client, chrome, this.chrome.url)
+    this.wsManager.handleConnection(client, chrome, this.session.id)
+    this.client.simulateOpen()
+    this.chrome.simulateOpen()
+  }
+
+  /**
+   * Registers the plugins and opens a session through them
+   * @throws Error when a plugin is rejected, e.g. for an invalid config
+   */
+  static async create(
+    plugins: CDPPlugin | CDPPlugin[],
+    options: PluginTestHarnessOptions = {},
+  ): Promise<PluginTestHarness> {
+    const list = Array.isArray(plugins) ? plugins : [plugins]
+    const harness = new PluginTestHarness(list, options)
+    await harness.settle()
+
+    const rejected = list.filter((plugin) => !harness.pluginManager.getPlugins().includes(plugin))
+    if (rejected.length) {
+      await harness.close()
+      throw new Error(`Plugins rejected: ${rejected.map(({ name }) => name).join(', ')}`)
+    }
+    return harness
+  }
+
+  /**
+   * Scripts how the fake browser answers a command. Commands without a reply
+   * get an empty result.
+   */
+  respond = (method: string, reply: FakeChromeReply): this => {
+    this.replies.set(method, reply)
+    return this
+  }
+
+  /**
+   * Sends a command from the client and waits for its response to reach the
+   * client
+   * @throws Error when no response arrives, e.g. because a plugin dropped the command
+   */
+  send = async (
+    method: string,
+    params: Record<string, unknown> = {},
+    sessionId?: string,
+  ): Promise<CDPCommandResponse> => {
+    const id = this.nextCommandId++
+    this.sendFromClient({ id, method, params, ...(sessionId && { sessionId }) })
+
+    const deadline = Date.now() + PLUGIN_TEST_HARNESS.RESPONSE_TIMEOUT_MS
+    while (Date.now() < deadline) {
+      const response = this.clientMessages.find(
+        (message): message is CDPCommandResponse =>
+          'id' in message && message.id === id && !('method' in message),
+      )
+      if (response) return response
+      await new Promise((resolve) => setTimeout(resolve, 1))
+    }
+    throw new Error(`No response to ${method} within ${PLUGIN_TEST_HARNESS.RESPONSE_TIMEOUT_MS}ms`)
+  }
+
+  /**
+   * Delivers any message as if the client sent it, without waiting
+   */
+  sendFromClient = (message: CDPMessage): void =>
+    this.client.simulateMessage(JSON.stringify(message))
+
+  /**
+   * Delivers an event as if the browser sent it and waits until the proxy
+   * has processed it
+   */
+  emit = async (
+    method: string,
+    params: Record<string, unknown> = {},
+    sessionId?: string,
+  ): Promise<void> => {
+    this.chrome.simulateMessage(JSON.stringify({ method, params, ...(sessionId && { sessionId }) }))
+    await this.settle()
+  }
+
+  /**
+   * Messages that reached the client, in order
+   */
+  get clientMessages(): CDPMessage[] {
+    return this.client.getSentMessages().map((message) => JSON.parse(message))
+  }
+
+  /**
+   * Client commands that reached the browser, in order, with the ids the
+   * proxy sent them with
+   */
+  get chromeMessages(): CDPCommandRequest[] {
+    return this.getChromeMessages().filter(({ id }) => !this.isPluginCommand(id))
+  }
+
+  /**
+   * Commands plugins sent to the browser through sendCDPCommand
+   */
+  get pluginCommands(): CDPCommandRequest[] {
+    return this.getChromeMessages().filter(({ id }) => this.isPluginCommand(id))
+  }
+
+  /**
+   * Waits until the proxy stops sending messages for a few event loop turns
+   */
+  settle = async (): Promise<void> => {
+    let count = -1
+    let idleTurns = 0
+    for (
+      let turn = 0;
+      turn < PLUGIN_TEST_HARNESS.MAX_SETTLE_TURNS && idleTurns < PLUGIN_TEST_HARNESS.SETTLE_TURNS;
+      turn++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 0))
+      const sent = this.client.getSentMessages().length + this.chrome.getSentMessages().length
+      idleTurns = sent === count ? idleTurns + 1 : 0
+      count = sent
+    }
+  }
+
+  /**
+   * Forgets the messages recorded so far
+   */
+  clear = (): void => {
+    this.client.clearSentMessages()
+    this.chrome.clearSentMessages()
+  }
+
+  /**
+   * Ends the session and unregisters the plugins, running their cleanup
+   */
+  close = async (): Promise<void> => {
+    this.sessionManager.removeSession(this.session.id)
+    this.wsManager.cleanup(this.session.id)
+    await this.pluginManager.clearPlugins()
+    // Lets the sockets finish closing
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+
+  private getChromeMessages = (): CDPCommandRequest[] =>
+    this.chrome.getSentMessages().map((message) => JSON.parse(message))
+
+  private isPluginCommand = (id: number | undefined): boolean =>
+    id !== undefined && id >= WEBSOCKET_MANAGER.PLUGIN_COMMAND_ID_BASE
+
+  private answer = async (request: CDPCommandRequest): Promise<void> => {
+    const reply = this.replies.get(request.method) ?? {}
+    let response: Omit<CDPCommandResponse, 'id'>
+    try {
+      // Always answers asynchronously, like a real browser
+      const result = await (typeof reply === 'function' ? reply(request) : reply)
+      response = { result: result ?? {} }
+    } catch (error) {
+      response = {
+        error: {
+          type: CDPErrorType.PROTOCOL,
+          code: CDP_SERVER_ERROR_CODE,
+          message: error instanceof Error ? error.message : String(error),
+          recoverable: true,
+        },
+      }
+    }
+
+    this.chrome.readyState === WebSocket.OPEN &&
+      this.chrome.simulateMessage(JSON.stringify({
+        id: request.id,
+        ...response,
+        ...(request.sessionId && { sessionId: request.sessionId }),
+      }))
+  }
+}
@@ -0,0 +1,201 @@
+/// <reference lib="deno.worker" />
+/**
+ * Entry point of the worker an isolated plugin runs in. Loads the plugin and
+ * runs its hooks for the WorkerPlugin on the proxy side.
+ */
+import { BaseCDPPlugin } from './base_cdp_plugin.ts'
+import { getMessageMetadata, matchesPlugin } from './plugin_matcher.ts'
+import type {
+  CDPMessage,
+  CDPPlugin,
+  PluginContext,
+  PluginHookName,
+  PluginWorkerDescriptor,
+  PluginWorkerRequest,
+  PluginWorkerResponse,
+} from './types.ts'
+
+type PluginWorkerCallRequest = Extract<PluginWorkerRequest, { type: 'call' }>
+type PluginWorkerHostRequest = Extract<
+  PluginWorkerResponse,
+  { type: 'send' | 'emit' | 'release' | 'drop' }
+>
+type PluginWorkerHold = Extract<PluginWorkerResponse, { type: 'result' }>['held']
+type PluginContextData = Omit<PluginContext, 'send' | 'emit' | 'hold' | 'release' | 'drop'>
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+const HOOKS: PluginHookName[] = [
+  'onRequest',
+  'onResponse',
+  'onEvent',
+  'onSessionStart',
+  'onSessionEnd',
+  'onTargetAttached',
+  'onTargetDetached',
+]
+const MESSAGE_HOOKS: PluginHookName[] = ['onRequest', 'onResponse', 'onEvent']
+
+let plugin: CDPPlugin | null = null
+let requestId = 0
+const pendingRequests = new Map<
+  number,
+  { resolve: (value: unknown) => void; reject: (reason?: unknown) => void }
+>()
+
+const post = (message: PluginWorkerResponse): void => self.postMessage(message)
+
+/**
+ * Asks the proxy to send a command or emit an event on the plugin's behalf
+ */
+const requestHost = <T>(
+  message: DistributiveOmit<PluginWorkerHostRequest, 'id'>,
+): Promise<T> => {
+  const id = ++requestId
+  return new Promise<T>((resolve, reject) => {
+    pendingRequests.set(id, { resolve: resolve as (value: unknown) => void, reject })
+    post({ ...message, id } as PluginWorkerHostRequest)
+  })
+}
+
+const toContext = (
+  data: PluginContextData,
+  onHold: (held: PluginWorkerHold) => void,
+): PluginContext => ({
+  ...data,
+  send: (command) =>
+    requestHost({
+      type: 'send',
+      endpoint: data.path ?? '',
+      proxySessionId: data.proxySessionId ?? '',
+      command: { ...command, sessionId: command.sessionId ?? data.sessionId, id: 0 },
+    }),
+  emit: (event) =>
+    requestHost({ type: 'emit', proxySessionId: data.proxySessionId ?? '', event }),
+  // The proxy parks the message once the hook's result comes back
+  hold: (key, options) => {
+    onHold({ key, options })
+    return null
+  },
+  release: (key, replacement) =>
+    requestHost({ type: 'release', proxySessionId: data.proxySessionId ?? '', key, replacement }),
+  drop: (key) => {
+    requestHost({ type: 'drop', proxySessionId: data.proxySessionId ?? '', key })
+  },
+})
+
+const describe = (plugin: CDPPlugin): PluginWorkerDescriptor => {
+  const { predicate: _predicate, ...matcher } = plugin.matcher ?? {}
+  return {
+    name: plugin.name,
+    apiVersion: plugin.apiVersion,
+    dryRun: plugin.dryRun,
+    priority: plugin.priority,
+    before: plugin.before,
+    after: plugin.after,
+    hookTimeouts: plugin.hookTimeouts,
+    matcher: plugin.matcher ? matcher : undefined,
+    permissions: plugin.permissions,
+    configSchema: plugin.configSchema,
+    // The pass-through defaults of BaseCDPPlugin don't count
+    hooks: HOOKS.filter((hook) =>
+      typeof plugin[hook] === 'function' &&
+      plugin[hook] !== (BaseCDPPlugin.prototype as CDPPlugin)[hook]
+    ),
+    customMethods: Object.keys(plugin.customMethods ?? {}),
+  }
+}
+
+const init = async (url: string, exportName?: string): Promise<void> => {
+  const module = await import(url)
+  const PluginClass = exportName
+    ? module?.[exportName]
+    : module?.default ?? Object.values(module ?? {})[0]
+  if (typeof PluginClass !== 'function') {
+    throw new Error(`No plugin class exported${exportName ? ` as ${exportName}` : ''} from ${url}`)
+  }
+
+  const instance: CDPPlugin = new PluginClass()
+  if (!(instance instanceof BaseCDPPlugin)) {
+    throw new Error('Invalid plugin: must extend BaseCDPPlugin')
+  }
+
+  instance.sendCDPCommand = (endpoint, proxySessionId, command) =>
+    requestHost({ type: 'send', endpoint, proxySessionId, command })
+  instance.emitClientEvent = (proxySessionId, event) =>
+    requestHost({ type: 'emit', proxySessionId, event })
+  instance.releaseHeldMessages = (proxySessionId, key, replacement) =>
+    requestHost({ type: 'release', proxySessionId, key, replacement })
+  instance.dropHeldMessages = (proxySessionId, key) => {
+    requestHost({ type: 'drop', proxySessionId, key })
+  }
+
+  plugin = instance
+  post({ type: 'ready', descriptor: describe(instance) })
+}
+
+const call = async (
+  plugin: CDPPlugin,
+  { call, method, args }: PluginWorkerCallRequest,
+  onHold: (held: PluginWorkerHold) => void,
+): Promise<unknown> => {
+  if (call === 'cleanup') return plugin.cleanup?.()
+
+  const [payload, contextData] = args as [unknown, PluginContextData | undefined]
+  const context = contextData && toContext(contextData, onHold)
+
+  if (call === 'customMethod') {
+    const handler = plugin.customMethods?.[method!]
+    if (!handler) throw new Error(`Unknown custom method: ${method}`)
+    return handler.call(plugin, payload as Record<string, unknown>, context!)
+  }
+
+  // Matcher predicates can't cross the worker boundary, so they run here
+  const predicate = plugin.matcher?.predicate
+  if (predicate && context && MESSAGE_HOOKS.includes(call)) {
+    const message = payload as CDPMessage
+    const metadata = getMessageMetadata(message, context, context.targetInfo?.type)
+    if (!matchesPlugin({ predicate }, metadata)) return message
+  }
+
+  const hook = plugin[call] as
+    | ((payload: unknown, context?: PluginContext) => Promise<unknown>)
+    | undefined
+  return hook?.call(plugin, payload, context)
+}
+
+self.onmessage = async ({ data }: MessageEvent<PluginWorkerRequest>) => {
+  switch (data.type) {
+    case 'init':
+      // Failing to load is fatal, the error event tells the proxy
+      await init(data.url, data.exportName)
+      return
+
+    case 'configure':
+      if (plugin) plugin.config = data.config
+      return
+
+    case 'call':
+      try {
+        if (!plugin) throw new Error('Plugin is not loaded')
+        let held: PluginWorkerHold
+        const result = await call(plugin, data, (hold) => (held = hold))
+        post({ type: 'result', id: data.id, result, held })
+      } catch (error) {
+        post({
+          type: 'result',
+          id: data.id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+      return
+
+    case 'reply': {
+      const pending = pendingRequests.get(data.id)
+      pendingRequests.delete(data.id)
+      data.error === undefined
+        ? pending?.resolve(data.result)
+        : pending?.reject(new Error(data.error))
+      return
+    }
+  }
+}
@@ -39,6 +39,19 @@ export class SchemaValidator {
     this.compileValidators(allDomains)
   }
 
+  /**
+   * Validates any value against a schema, regardless of whether CDP
+   * validation is enabled
+   * @throws Error naming the first invalid property
+   */
+  validateValue = (data: unknown, schema: SchemaDefinition): void =>
+    this.validateAgainstSchema(data, schema)
+
+  /**
+   * Checks whether a command is part of the loaded protocol schema
+   */
+  hasCommand = (method: string): boolean => this.commandValidators.has(method)
+
   /**
    * Validates a CDP request message against its schema
    */
@@ -273,35 +286,43 @@ export class SchemaValidator {
   private validateAgainstSchema = (
     data: unknown,
     schema: SchemaDefinition,
+    path = '',
   ): void => {
+    const fail = (message: string): never => {
+      throw new Error(path ? `${path}: ${message}` : message)
+    }
+    const childPath = (key: string | number) => path ? `${path}.${key}` : String(key)
+
     if (schema.type === 'object') {
       if (typeof data !== 'object' || data === null) {
-        throw new Error(`Expected object, got ${typeof data}`)
+        fail(`Expected object, got ${typeof data}`)
       }
 
       schema.required?.forEach((required) => {
-        if (!(required in data)) {
-          throw new Error(`Missing required property: ${required}`)
+        if (!(required in (data as object))) {
+          fail(`Missing required property: ${required}`)
         }
       })
 
-      if (schema.properties) {
-        Object.entries(data as Record<string, unknown>).forEach(
-          ([key, value]) => {
-            const propertySchema = schema.properties?.[key]
-            if (propertySchema) {
-              this.validateAgainstSchema(value, propertySchema)
-            }
-          },
-        )
-      }
+      Object.entries(data as Record<string, unknown>).forEach(
+        ([key, value]) => {
+          const propertySchema = schema.properties?.[key]
+          if (propertySchema) {
+            this.validateAgainstSchema(value, propertySchema, childPath(key))
+          } else if (schema.additionalProperties === false) {
+            fail(`Unknown property: ${key}`)
+          }
+        },
+      )
     } else if (schema.type === 'array') {
       if (!Array.isArray(data)) {
-        throw new Error(`Expected array, got ${typeof data}`)
+        fail(`Expected array, got ${typeof data}`)
       }
 
       if (schema.items) {
-        data.forEach((item) => this.validateAgainstSchema(item, schema.items!))
+        ;(data as unknown[]).forEach((item, index) =>
+          this.validateAgainstSchema(item, schema.items!, childPath(index))
+        )
       }
     } else {
       const typeMap: Record<string, string> = {
@@ -313,11 +334,11 @@ export class SchemaValidator {
 
       const expectedType = typeMap[schema.type || '']
       if (expectedType && !this.isExpectedType(data, expectedType)) {
-        throw new Error(`Expected ${expectedType}, got ${typeof data}`)
+        fail(`Expected ${expectedType}, got ${typeof data}`)
       }
 
       if (schema.enum && !schema.enum.includes(data)) {
-        throw new Error(`Value must be one of: ${schema.enum.join(', ')}`)
+        fail(`Value must be one of: ${schema.enum.join(', ')}`)
       }
     }
   }
@@ -1,4 +1,10 @@
-import type { Session } from './types.ts'
+import type {
+  BufferUsage,
+  BufferUsageSource,
+  Session,
+  SessionLifecycleEvent,
+  SessionListener,
+} from './types.ts'
 import type { ErrorHandler } from './error_handler.ts'
 import { CDPErrorType } from './types.ts'
 
@@ -13,8 +19,10 @@ const ERROR_CODES = {
  */
 export class SessionManager {
   private readonly sessions = new Map<string, Session>()
+  private readonly listeners = new Set<SessionListener>()
   private readonly errorHandler: ErrorHandler
   private totalSessionsCreated = 0
+  private bufferUsageSource: BufferUsageSource | null = null
 
   constructor(errorHandler: ErrorHandler) {
     this.errorHandler = errorHandler
@@ -26,6 +34,7 @@ export class SessionManager {
    * @param chromeSocket WebSocket connection to Chrome
    * @param chromeWsUrl Chrome WebSocket URL
    * @param sessionId Optional session ID (will be generated if not provided)
+   * @param plugins Names of the plugins the client selected, all when omitted
    * @returns The created session
    */
   createSession(
@@ -33,6 +42,7 @@ export class SessionManager {
     chromeSocket: WebSocket,
     chromeWsUrl: string,
     sessionId = crypto.randomUUID(),
+    plugins?: string[],
   ): Session {
     const session: Session = {
       id: sessionId,
@@ -41,13 +51,25 @@ export class SessionManager {
       chromeWsUrl,
       active: true,
       createdAt: Date.now(),
+      ...(plugins && { plugins }),
     }
 
     this.sessions.set(session.id, session)
     this.totalSessionsCreated++
+    this.notifyListeners('created', session)
     return session
   }
 
+  /**
+   * Registers a listener called whenever a session is created or removed
+   * @param listener Called with the lifecycle event and the session
+   * @returns A function that removes the listener
+   */
+  addSessionListener(listener: SessionListener): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
   /**
    * Gets a session by ID
    * @param sessionId The session ID to look up
@@ -67,6 +89,16 @@ export class SessionManager {
     return session
   }
 
+  /**
+   * Looks up a session without reporting an error when it is gone, for
+   * callers that handle messages arriving after a session ended
+   * @param sessionId The session ID to look up
+   * @returns The session if found, undefined otherwise
+   */
+  findSession(sessionId: string): Session | undefined {
+    return this.sessions.get(sessionId)
+  }
+
   /**
    * Safely removes a session and cleans up resources
    * @param sessionId The session ID to remove
@@ -91,6 +123,7 @@ export class SessionManager {
       )
     } finally {
       this.sessions.delete(sessionId)
+      this.notifyListeners('removed', session)
     }
   }
 
@@ -102,12 +135,21 @@ export class SessionManager {
     return Array.from(this.sessions.values()).filter((s) => s.active)
   }
 
+  /**
+   * Sets where session stats read how much is buffered for each session
+   * @param source Returns the buffered bytes and messages of a session
+   */
+  setBufferUsageSource(source: BufferUsageSource): void {
+    this.bufferUsageSource = source
+  }
+
   /**
    * Gets statistics about all sessions for monitoring and debugging purposes
    * @returns Object containing detailed session statistics including:
    * - total: Total number of sessions created since startup
    * - active: Current number of active sessions
    * - sessions: Detailed array of session information including connection states
+   *   and buffer usage
    * @testing Used in tests to verify session lifecycle management
    * @monitoring Can be used for health checks and debugging session issues
    */
@@ -120,6 +162,7 @@ export class SessionManager {
       createdAt: number
       clientConnected: boolean
       chromeConnected: boolean
+      buffer: BufferUsage
     }>
   } {
     const sessions = Array.from(this.sessions.values())
@@ -129,6 +172,7 @@ export class SessionManager {
       createdAt: session.createdAt,
       clientConnected: session.clientSocket.readyState === WebSocket.OPEN,
       chromeConnected: session.chromeSocket.readyState === WebSocket.OPEN,
+      buffer: this.bufferUsageSource?.(session.id) ?? { bytes: 0, messages: 0 },
     }))
 
     return {
@@ -165,6 +209,16 @@ export class SessionManager {
     this.sessions.clear()
   }
 
+  private notifyListeners(event: SessionLifecycleEvent, session: Session): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event, session)
+      } catch (error) {
+        console.error(`[CDP PROXY] Session listener failed on ${event}:`, error)
+      }
+    }
+  }
+
   private closeWebSockets(session: Session): void {
     if (session.clientSocket.readyState === WebSocket.OPEN) {
       session.clientSocket.close()
@@ -6,12 +6,43 @@ import type { SchemaValidator } from './schema_validator.ts'
 import type { PluginManager } from './plugin_manager.ts'
 import type { WebSocketManager } from './websocket_manager.ts'
 import type { HttpManager } from './http_manager.ts'
+import type { PluginLoader } from './plugin_loader.ts'
 
+/**
+ * What happens to a message that doesn't fit a session's buffer:
+ * - `drop-oldest`: Older buffered messages are dropped to make room
+ * - `reject`: The message is dropped, client commands are answered with a CDP error
+ * - `close`: The session is closed
+ */
+export type BufferOverflowPolicy = 'drop-oldest' | 'reject' | 'close'
+
+/**
+ * Limits for messages buffered while a session's socket isn't ready, and
+ * flow control thresholds
+ */
 export interface BufferConfig {
   cleanupInterval: number // Milliseconds between cleanup runs
   warningThreshold: number // Bytes before memory warning
   maxSize: number // Maximum bytes per session
   maxBufferSize: number // Maximum size in bytes for a session's buffer
+  maxMessageSize: number // Maximum size in bytes of one buffered message
+  overflowPolicy: BufferOverflowPolicy // Applied when a limit is reached
+  highWaterMark: number // Bytes queued on a socket before the other side's messages wait
+  lowWaterMark: number // Bytes queued on a socket below which they continue
+}
+
+/**
+ * Liveness checks. Deno pings the client socket at the protocol level, Chrome
+ * is sent a `Browser.getVersion` probe after a quiet interval.
+ */
+export interface HeartbeatConfig {
+  interval: number // Milliseconds between checks
+  missedLimit: number // Unanswered checks in a row before a peer counts as dead
+}
+
+export interface BufferUsage {
+  bytes: number
+  messages: number
 }
 
 export interface Session {
@@ -21,8 +52,13 @@ export interface Session {
   chromeWsUrl: string
   active: boolean
   createdAt: number
+  plugins?: string[] // Names of the plugins the client selected, all plugins when unset
 }
 
+export type SessionLifecycleEvent = 'created' | 'removed'
+export type SessionListener = (event: SessionLifecycleEvent, session: Session) => void
+export type BufferUsageSource = (sessionId: string) => BufferUsage
+
 export interface CDPError {
   type: CDPErrorType
   code: number
@@ -61,8 +97,192 @@ export interface CDPEvent {
   sessionId?: string
 }
 
+/**
+ * Where a message entered the proxy, as reported by the WebSocketManager
+ */
+export interface CDPMessageOrigin {
+  direction: WebSocketSource
+  proxySessionId?: string
+  path?: string
+  request?: CDPCommandRequest // For responses, the client command as sent to Chrome
+  latency?: number // For responses, milliseconds since the command was sent
+}
+
+/**
+ * Metadata describing a single message, used when matching it against plugins
+ */
+export interface CDPMessageMetadata extends CDPMessageOrigin {
+  type: CDPMessageType
+  method?: string
+  sessionId?: string
+  targetType?: string
+  message: CDPMessage
+}
+
+export type CDPMessageType = 'request' | 'response' | 'event'
+
+export interface CDPTargetInfo {
+  targetId: string
+  type: string
+  title?: string
+  url?: string
+  [key: string]: unknown
+}
+
+/**
+ * Passed as the second argument to every plugin hook. Describes where the
+ * message came from and provides helpers bound to its proxy session.
+ */
+export interface PluginContext extends CDPMessageOrigin {
+  sessionId?: string // CDP sessionId of the message
+  targetInfo?: CDPTargetInfo
+  receivedAt: number // When the proxy received the message
+  sessionCreatedAt?: number // When the proxy session was created
+  send: (
+    message: Omit<CDPCommandRequest, 'id'>,
+  ) => Promise<CDPCommandResponse>
+  emit: (event: CDPEvent) => Promise<void>
+  // Parks the message the hook is handling under a key, return its result
+  hold: (key: string, options?: PluginHoldOptions) => null
+  // Lets the messages held under a key continue, or the replacement in their place
+  release: (key: string, replacement?: PluginHookResult<CDPMessage>) => Promise<void>
+  drop: (key: string) => void // Discards the messages held under a key
+}
+
+/**
+ * What happens to a held message that isn't released in time: it continues,
+ * is discarded, or, for requests, is answered with an error
+ */
+export type PluginHoldTimeoutPolicy = 'release' | 'drop' | 'error'
+
+export interface PluginHoldOptions {
+  timeout?: number // Milliseconds, defaults to PLUGIN_MANAGER.HOLD_TIMEOUT_MS
+  onTimeout?: PluginHoldTimeoutPolicy // Defaults to 'release'
+}
+
+/**
+ * Declares which messages a plugin wants to receive. Every field that is set
+ * must match; a plugin without a matcher receives everything.
+ */
+export interface PluginMatcher {
+  methods?: string | string[] // Method globs, e.g. 'Network.*'
+  direction?: WebSocketSource // Side the message came from
+  sessionIds?: string | string[] // CDP sessionIds
+  targetTypes?: string | string[] // e.g. 'page', 'iframe', 'worker'
+  predicate?: (metadata: CDPMessageMetadata) => boolean
+}
+
+export type PluginMessageHookName = 'onRequest' | 'onResponse' | 'onEvent'
+export type PluginLifecycleHookName =
+  | 'onSessionStart'
+  | 'onSessionEnd'
+  | 'onTargetAttached'
+  | 'onTargetDetached'
+export type PluginHookName = PluginMessageHookName | PluginLifecycleHookName
+
+/**
+ * Answers a plugin-defined CDP method. Resolves to the `result` sent to the
+ * client; throwing sends a CDP error instead.
+ */
+export type PluginMethodHandler = (
+  params: Record<string, unknown>,
+  context: PluginContext,
+) => Promise<Record<string, unknown> | void>
+
+export type PluginConfig = Record<string, unknown>
+
+/**
+ * Configuration sections keyed by plugin name
+ */
+export type PluginConfigMap = Record<string, PluginConfig>
+
+/**
+ * Named plugin sets clients can select with the `profile` query parameter,
+ * keyed by profile name
+ */
+export type PluginProfiles = Record<string, string[]>
+
+/**
+ * The proxy config file, `cdp-proxy.config.json` by default
+ */
+export interface ProxyConfigFile {
+  plugins?: PluginConfigMap
+  profiles?: PluginProfiles
+}
+
+/**
+ * Where plugin configuration comes from. Values are merged in this order,
+ * later ones winning: schema defaults, `file`, the plugin's manifest entry,
+ * `env`, `options`.
+ */
+export interface PluginConfigSources {
+  file?: PluginConfigMap // The `plugins` section of the proxy config file
+  env?: Record<string, string> // Defaults to Deno.env
+  options?: PluginConfigMap // Passed to startProxy
+}
+
+/**
+ * What a hook resolves to: the message, several messages to deliver in its
+ * place in order, or null to drop it
+ */
+export type PluginHookResult<T> = T | T[] | null
+
+/**
+ * Time budget in milliseconds for a plugin's hooks, either one value for all
+ * hooks or one per hook
+ */
+export type PluginHookTimeouts = number | Partial<Record<PluginHookName, number>>
+
+/**
+ * One difference between two JSON values, at a JSON Pointer path such as
+ * `/params/url`
+ */
+export interface JsonDiffEntry {
+  op: 'add' | 'remove' | 'replace'
+  path: string
+  from?: unknown // For remove and replace
+  to?: unknown // For add and replace
+}
+
+/**
+ * What a plugin in dry-run mode would have done with a message
+ */
+export type PluginDryRunOutcome = 'changed' | 'dropped' | 'replaced' | 'held'
+
+export interface PluginDryRunRecord {
+  plugin: string
+  hook: PluginMessageHookName
+  outcome: PluginDryRunOutcome
+  message: CDPMessage // What the plugin received, forwarded unchanged
+  diff?: JsonDiffEntry[] // For changed messages
+  results?: CDPMessage[] // For messages the plugin split or answered itself
+  proxySessionId?: string
+  timestamp: number
+}
+
+/**
+ * Whether a plugin's message hooks run, changed through
+ * PluginManager.enablePlugin and disablePlugin
+ */
+export interface PluginEnabledState {
+  enabled: boolean // For sessions without an override
+  sessions: Record<string, boolean> // Overrides keyed by proxy session ID
+}
+
 export interface CDPPlugin {
   name: string;
+  matcher?: PluginMatcher;
+  priority?: number; // Lower runs first
+  before?: string[]; // Names of plugins this one must run before
+  after?: string[]; // Names of plugins this one must run after
+  hookTimeouts?: PluginHookTimeouts;
+  apiVersion?: number; // Plugin API version the plugin was written for
+  dryRun?: boolean; // Record what the message hooks would change instead of applying it
+  customMethods?: Record<string, PluginMethodHandler>; // Keyed by `Domain.method`
+  permissions?: PluginPermissions; // Granted when the plugin runs in a worker
+  configSchema?: SchemaDefinition;
+  config?: PluginConfig; // Resolved and validated at registration
+  enabledState?: PluginEnabledState; // Set at registration
   sendCDPCommand?: (
     endpoint: string,
     proxySessionId: string,
@@ -72,13 +292,34 @@ export interface CDPPlugin {
     proxySessionId: string,
     event: CDPEvent,
   ) => Promise<void>;
+  releaseHeldMessages?: (
+    proxySessionId: string,
+    key: string,
+    replacement?: PluginHookResult<CDPMessage>,
+  ) => Promise<void>;
+  dropHeldMessages?: (proxySessionId: string, key: string) => void;
   onRequest?: (
     request: CDPCommandRequest,
-  ) => Promise<CDPCommandRequest | null>;
+    context: PluginContext,
+  ) => Promise<PluginHookResult<CDPCommandRequest | CDPCommandResponse>>;
   onResponse?: (
     response: CDPCommandResponse,
-  ) => Promise<CDPCommandResponse | null>;
-  onEvent?: (event: CDPEvent) => Promise<CDPEvent | null>;
+    context: PluginContext,
+  ) => Promise<PluginHookResult<CDPCommandResponse>>;
+  onEvent?: (
+    event: CDPEvent,
+    context: PluginContext,
+  ) => Promise<PluginHookResult<CDPEvent>>;
+  onSessionStart?: (session: Session) => Promise<void>;
+  onSessionEnd?: (session: Session) => Promise<void>;
+  onTargetAttached?: (
+    target: CDPTargetInfo,
+    context: PluginContext,
+  ) => Promise<void>;
+  onTargetDetached?: (
+    target: CDPTargetInfo,
+    context: PluginContext,
+  ) => Promise<void>;
   cleanup?: () => Promise<void>;
   _state?: { cleaning?: boolean; cleanupStarted?: number };
 }
@@ -90,6 +331,7 @@ export interface SchemaDefinition {
   items?: SchemaDefinition
   enum?: unknown[]
   additionalProperties?: boolean
+  default?: unknown // Used for plugin configuration
 }
 
 export interface ChromiumPaths {
@@ -119,12 +361,55 @@ export interface CDPResponse extends BaseDebuggerResponse {
   debuggerUrl?: string
 }
 
+/**
+ * A plugin to load from a manifest. A plain string is shorthand for
+ * `{ specifier }`.
+ */
+export interface PluginManifestEntry {
+  specifier: string // Path relative to the manifest, `file:` URL, or `jsr:`/`npm:` specifier
+  export?: string // Named export holding the plugin class, defaults to the default export
+  enabled?: boolean // Defaults to true
+  dryRun?: boolean // Overrides the plugin's own dryRun flag
+  required?: boolean // The proxy doesn't start if the plugin fails to load
+  options?: PluginConfig
+}
+
+export interface PluginManifest {
+  plugins: (string | PluginManifestEntry)[]
+}
+
+export interface ProxyOptions {
+  buffer?: Partial<BufferConfig>
+  heartbeat?: Partial<HeartbeatConfig>
+  pluginConfig?: PluginConfigMap
+  pluginProfiles?: PluginProfiles // Merged over the config file's profiles
+  plugins?: (string | PluginManifestEntry)[] // Loaded like manifest entries, relative to the CWD
+}
+
+/**
+ * How the fake browser of a PluginTestHarness answers a command: its result,
+ * or a function returning the result. A function that throws answers with a
+ * CDP error.
+ */
+export type FakeChromeReply =
+  | Record<string, unknown>
+  | ((
+    request: CDPCommandRequest,
+  ) => Record<string, unknown> | void | Promise<Record<string, unknown> | void>)
+
+export interface PluginTestHarnessOptions {
+  path?: string // WebSocket path the session connects to
+  pluginConfig?: PluginConfigMap
+  validator?: SchemaValidator // Checks custom methods against a loaded protocol
+}
+
 export interface ProxyComponents {
   errorHandler: ErrorHandler
   chromeManager: ChromeManager
   sessionManager: SessionManager
   schemaValidator: SchemaValidator
   pluginManager: PluginManager
+  pluginLoader: PluginLoader
   wsManager: WebSocketManager
   httpManager: HttpManager
 }
@@ -140,7 +425,131 @@ export interface WebSocketConnectionState {
   chromeSocket: WebSocket
 }
 
+export interface WebSocketHeartbeat {
+  timer: number
+  removeListeners: () => void // Of the client socket, whose close ends the heartbeat
+  chromeActive: boolean // Chrome sent something since the last check
+  probed: boolean // A probe was sent at the last check
+  missed: number // Probes in a row Chrome left unanswered
+}
+
+/**
+ * How a session's Chrome socket is opened again when it drops while the
+ * client stays connected
+ */
+export interface ChromeReconnectOptions {
+  getUrl: () => string | Promise<string> // The target, or the current browser endpoint
+  connect?: (url: string) => WebSocket // Opens the socket, `new WebSocket(url)` by default
+  onReconnect?: (chromeSocket: WebSocket) => void // Called once the new socket is open
+}
+
+/**
+ * Client commands in flight to Chrome for one session, keyed by the id they
+ * were sent to Chrome with
+ */
+export interface WebSocketCommandIdMap {
+  nextId: number
+  commands: Map<number, WebSocketInFlightCommand>
+}
+
+export interface WebSocketInFlightCommand {
+  clientId: number
+  request: CDPCommandRequest // After plugins, with the client's id
+  sentAt: number
+  internal?: boolean // Sent by the proxy itself, like replays and probes, the client isn't waiting for it
+}
+
+/**
+ * Messages from one side of a session on their way through the plugin
+ * pipeline, which takes them one at a time in arrival order
+ */
+export interface WebSocketMessageQueue {
+  tail: Promise<void> // Settles once the last queued message was delivered
+  depth: number // Messages waiting or in the pipeline
+  maxDepth: number // Highest depth since the session started
+  paused: boolean // Waiting for the receiving socket to drain
+  pauseCount: number // Times the queue paused since the session started
+  waiting: WebSocketQueuedMessage[] // Messages the plugins haven't started on, oldest first
+  bytes: number // Size of the waiting messages
+  dropped: number // Messages the overflow policy dropped since the session started
+}
+
+export interface WebSocketQueuedMessage {
+  message: CDPMessage
+  size: number // Bytes
+}
+
+export type WebSocketQueueStats = Record<
+  WebSocketSource,
+  Omit<WebSocketMessageQueue, 'tail' | 'waiting'>
+>
+
 export interface WebSocketPendingMessage {
   source: WebSocketSource
   message: string
+  size: number // Bytes
 }
+
+// Plugin Worker Types
+
+/**
+ * Permissions a plugin needs when it runs isolated in a worker. Anything not
+ * listed is denied.
+ */
+export interface PluginPermissions {
+  net?: boolean | string[]
+  read?: boolean | string[]
+  env?: boolean | string[]
+}
+
+/**
+ * What the proxy needs to know about a plugin running in a worker
+ */
+export interface PluginWorkerDescriptor {
+  name: string
+  apiVersion?: number
+  dryRun?: boolean
+  priority?: number
+  before?: string[]
+  after?: string[]
+  hookTimeouts?: PluginHookTimeouts
+  matcher?: Omit<PluginMatcher, 'predicate'> // Predicates run in the worker
+  permissions?: PluginPermissions
+  configSchema?: SchemaDefinition
+  hooks: PluginHookName[] // Hooks the plugin implements
+  customMethods: string[]
+}
+
+export type PluginWorkerCall = PluginHookName | 'cleanup' | 'customMethod'
+
+/**
+ * Messages from the proxy to a plugin worker
+ */
+export type PluginWorkerRequest =
+  | { type: 'init'; url: string; exportName?: string }
+  | { type: 'configure'; config: PluginConfig }
+  | { type: 'call'; id: number; call: PluginWorkerCall; method?: string; args: unknown[] }
+  | { type: 'reply'; id: number; result?: unknown; error?: string }
+
+/**
+ * Messages from a plugin worker to the proxy
+ */
+export type PluginWorkerResponse =
+  | { type: 'ready'; descriptor: PluginWorkerDescriptor }
+  | {
+    type: 'result'
+    id: number
+    result?: unknown
+    error?: string
+    held?: { key: string; options?: PluginHoldOptions } // The hook held its message
+  }
+  | { type: 'send'; id: number; endpoint: string; proxySessionId: string; command: CDPCommandRequest }
+  | { type: 'emit'; id: number; proxySessionId: string; event: CDPEvent | CDPCommandResponse }
+  | {
+    type: 'release'
+    id: number
+    proxySessionId: string
+    key: string
+    replacement?: PluginHookResult<CDPMessage>
+  }
+  | { type: 'drop'; id: number; proxySessionId: string; key: string }
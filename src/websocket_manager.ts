@@ -2,13 +2,25 @@ import type { ErrorHandler } from './error_handler.ts'
 import type { SchemaValidator } from './schema_validator.ts'
 import type { PluginManager } from './plugin_manager.ts'
 import {
-  type CDPCommandResponse,
   CDPErrorType,
+  type BufferConfig,
+  type BufferUsage,
+  type CDPCommandRequest,
+  type CDPCommandResponse,
+  type CDPEvent,
+  type ChromeReconnectOptions,
   type CDPMessage,
+  type HeartbeatConfig,
+  type WebSocketCommandIdMap,
+  type WebSocketInFlightCommand,
   type WebSocketConnectionState,
   type WebSocketSource,
   type WebSocketConnectionStatus,
+  type WebSocketHeartbeat,
+  type WebSocketMessageQueue,
   type WebSocketPendingMessage,
+  type WebSocketQueuedMessage,
+  type WebSocketQueueStats,
 } from './types.ts'
 import { WEBSOCKET_MANAGER } from './constants.ts'
 
@@ -32,41 +44,78 @@ export class WebSocketManager {
     string,
     WebSocketPendingMessage[]
   >()
-  private readonly cleanupInProgress = new Set<string>()
-  private readonly heartbeatIntervals = new Map<WebSocket, number>()
-  private readonly heartbeatListeners = new Map<
-    WebSocket,
-    Record<'close' | 'error', () => void>
+  private readonly commandIdMaps = new Map<string, WebSocketCommandIdMap>()
+  private readonly messageQueues = new Map<
+    string,
+    Record<WebSocketSource, WebSocketMessageQueue>
   >()
+  private readonly cleanupInProgress = new Set<string>()
+  private readonly heartbeats = new Map<string, WebSocketHeartbeat>()
   private readonly socketToSession = new Map<WebSocket, string>()
   private pluginManager: PluginManager | null = null
+  private readonly buffer: BufferConfig
+  private readonly heartbeat: HeartbeatConfig
+  // Sessions whose buffer is over the warning threshold, to warn only once
+  private readonly bufferWarnings = new Set<string>()
+  private bufferSweeper: number | undefined
+  private readonly reconnectOptions = new Map<string, ChromeReconnectOptions>()
+  private readonly reconnecting = new Set<string>()
+  // The domain enables and auto-attach settings a reconnect issues again
+  private readonly sessionSetup = new Map<string, Map<string, CDPCommandRequest>>()
 
   /**
    * Creates a new WebSocket manager instance
    * @param errorHandler - Handles CDP errors
    * @param validator - Validates CDP messages
    * @param pluginManager - Optional plugin manager (can be set later)
+   * @param bufferConfig - Buffer limits and flow control thresholds, defaults from WEBSOCKET_MANAGER
+   * @param heartbeatConfig - Liveness checks, defaults from WEBSOCKET_MANAGER
    */
   constructor(
     private readonly errorHandler: ErrorHandler,
     private readonly validator: SchemaValidator,
     pluginManager?: PluginManager | null,
+    bufferConfig: Partial<BufferConfig> = {},
+    heartbeatConfig: Partial<HeartbeatConfig> = {},
   ) {
     this.pluginManager = pluginManager ?? null
+    this.buffer = {
+      cleanupInterval: WEBSOCKET_MANAGER.BUFFER_CLEANUP_INTERVAL,
+      warningThreshold: WEBSOCKET_MANAGER.BUFFER_WARNING_THRESHOLD,
+      maxSize: WEBSOCKET_MANAGER.BUFFER_MAX_SIZE,
+      maxBufferSize: WEBSOCKET_MANAGER.BUFFER_MAX_SIZE,
+      maxMessageSize: WEBSOCKET_MANAGER.BUFFER_MAX_MESSAGE_SIZE,
+      overflowPolicy: WEBSOCKET_MANAGER.BUFFER_OVERFLOW_POLICY,
+      highWaterMark: WEBSOCKET_MANAGER.HIGH_WATER_MARK,
+      lowWaterMark: WEBSOCKET_MANAGER.LOW_WATER_MARK,
+      ...bufferConfig,
+    }
+    this.heartbeat = {
+      interval: WEBSOCKET_MANAGER.HEARTBEAT_INTERVAL,
+      missedLimit: WEBSOCKET_MANAGER.HEARTBEAT_MISSED_LIMIT,
+      ...heartbeatConfig,
+    }
   }
 
   setPluginManager = (pluginManager: PluginManager): void => {
     this.pluginManager = pluginManager
   }
 
+  /**
+   * Starts proxying a session between its client and Chrome sockets
+   * @param reconnect - Reopens the Chrome socket when it drops while the
+   * client stays connected, it is only closed with the session otherwise
+   */
   handleConnection = (
     clientSocket: WebSocket,
     chromeSocket: WebSocket,
     sessionId: string,
+    reconnect?: ChromeReconnectOptions,
   ): void => {
     console.log(
       `[CDP PROXY] WebSocketManager handling connection for session ${sessionId}`,
     )
+    reconnect && this.reconnectOptions.set(sessionId, reconnect)
     this.cleanupInProgress.has(sessionId)
       ? this.handlePendingCleanup(clientSocket, chromeSocket, sessionId)
       : this.initializeConnection(clientSocket, chromeSocket, sessionId)
@@ -105,7 +154,7 @@ export class WebSocketManager {
     this.socketToSession.set(clientSocket, sessionId).set(chromeSocket, sessionId)
 
     const setupTasks = {
-      heartbeat: () => this.setupHeartbeat(clientSocket),
+      heartbeat: () => this.setupHeartbeat(sessionId, clientSocket),
       'message handling': () => this.setupMessageHandling(clientSocket, chromeSocket, sessionId),
       'error handling': () => this.setupErrorHandling(clientSocket, chromeSocket, sessionId),
     }
@@ -125,47 +174,86 @@ export class WebSocketManager {
     clientSocket: WebSocket,
     chromeSocket: WebSocket,
   ): void => {
-    const defaultState = {
-      clientReady: false,
-      chromeReady: false,
+    const existingState = this.connectionStates.get(sessionId)
+    this.connectionStates.set(sessionId, {
+      clientReady: existingState?.clientReady ?? false,
+      chromeReady: existingState?.chromeReady ?? false,
       clientSocket,
       chromeSocket,
-    }
-    this.connectionStates.set(sessionId, this.connectionStates.get(sessionId) ?? defaultState)
+    })
     this.pendingMessages.set(sessionId, this.pendingMessages.get(sessionId) ?? [])
   }
 
-  private setupHeartbeat = (ws: WebSocket): void => {
-    this.clearHeartbeat(ws)
-    
-    const pingInterval = setInterval(
-      () => ws.readyState === WebSocket.OPEN 
-        ? Promise.resolve(ws.send('ping')).catch(() => this.clearHeartbeat(ws))
-        : this.clearHeartbeat(ws),
-      WEBSOCKET_MANAGER.HEARTBEAT_INTERVAL,
-    )
+  /**
+   * Checks every interval that Chrome is still there, for as long as the
+   * client is connected. Deno pings the client socket itself, see
+   * `handleWebSocketUpgrade`.
+   */
+  private setupHeartbeat = (sessionId: string, clientSocket: WebSocket): void => {
+    this.clearHeartbeat(sessionId)
 
-    const listeners = {
-      close: () => this.clearHeartbeat(ws),
-      error: () => this.clearHeartbeat(ws),
-    }
+    const events = ['close', 'error']
+    const stop = (): void => this.clearHeartbeat(sessionId)
+    events.forEach((event) => clientSocket.addEventListener(event, stop))
 
-    Object.entries(listeners).forEach(([event, handler]) => 
-      ws.addEventListener(event, handler))
+    this.heartbeats.set(sessionId, {
+      timer: setInterval(() => this.checkLiveness(sessionId), this.heartbeat.interval),
+      removeListeners: () => events.forEach((event) => clientSocket.removeEventListener(event, stop)),
+      chromeActive: true,
+      probed: false,
+      missed: 0,
+    })
+  }
 
-    this.heartbeatListeners.set(ws, listeners)
-    this.heartbeatIntervals.set(ws, pingInterval)
+  private clearHeartbeat = (sessionId: string): void => {
+    const heartbeat = this.heartbeats.get(sessionId)
+    if (!heartbeat) return
+
+    clearInterval(heartbeat.timer)
+    heartbeat.removeListeners()
+    this.heartbeats.delete(sessionId)
   }
 
-  private clearHeartbeat = (ws: WebSocket): void => {
-    const interval = this.heartbeatIntervals.get(ws)
-    interval && clearInterval(interval)
-    this.heartbeatIntervals.delete(ws)
+  /**
+   * Any message from Chrome shows it is alive. After a quiet interval Chrome
+   * is probed with `Browser.getVersion`, and once `missedLimit` probes in a
+   * row went unanswered the session is closed.
+   */
+  private checkLiveness = (sessionId: string): void => {
+    const heartbeat = this.heartbeats.get(sessionId)
+    const chromeSocket = this.connectionStates.get(sessionId)?.chromeSocket
+    // Sockets that aren't open are closed or reconnected by their handlers
+    if (!heartbeat || chromeSocket?.readyState !== WebSocket.OPEN) return
+
+    const { chromeActive, probed } = heartbeat
+    heartbeat.missed = chromeActive ? 0 : heartbeat.missed + (probed ? 1 : 0)
+    heartbeat.chromeActive = false
+    heartbeat.probed = false
+    if (heartbeat.missed >= this.heartbeat.missedLimit) {
+      this.closeUnresponsiveSession(sessionId)
+      return
+    }
+    if (chromeActive) return
 
-    const listeners = this.heartbeatListeners.get(ws)
-    listeners && Object.entries(listeners).forEach(([event, handler]) => 
-      ws.removeEventListener(event, handler))
-    this.heartbeatListeners.delete(ws)
+    const probe: CDPCommandRequest = { id: 0, method: 'Browser.getVersion' }
+    chromeSocket.send(JSON.stringify({ ...probe, id: this.allocateCommandId(sessionId, probe, true) }))
+    heartbeat.probed = true
+  }
+
+  private closeUnresponsiveSession = (sessionId: string): void => {
+    const state = this.connectionStates.get(sessionId)
+    this.errorHandler.handleError({
+      type: CDPErrorType.CONNECTION,
+      code: 1008,
+      message: `Chrome stopped responding for session ${sessionId}, closing the session`,
+      recoverable: true,
+      details: { sessionId, missed: this.heartbeat.missedLimit, interval: this.heartbeat.interval },
+    })
+
+    // Cleaned up first, so closing the Chrome socket doesn't reconnect it
+    this.cleanup(sessionId)
+    state?.chromeSocket.close()
+    state?.clientSocket.close(1011, 'Chrome stopped responding')
   }
 
   private setupMessageHandling = (
@@ -173,80 +261,417 @@ export class WebSocketManager {
     chromeSocket: WebSocket,
     sessionId: string,
   ): void => {
-    const logMessage = (
-      direction: string,
-      data: string | ArrayBuffer,
-      path: string,
-    ) =>
-      console.debug(
-        `[CDP PROXY] %c${direction}%c | Path ${path} |`,
-        WEBSOCKET_MANAGER.LOG_STYLE,
-        '',
-        Deno.inspect(
-          data instanceof ArrayBuffer ? new TextDecoder().decode(data) : data,
-          { colors: true, depth: 1 },
-        ),
-      )
+    const reportError = (source: WebSocketSource, error: unknown): void => {
+      console.error(`[CDP PROXY] Error handling message:`, error)
+      this.handleWebSocketError(source, error, sessionId)
+    }
 
-    const handleMessage = async (
+    const handleMessage = (
       source: WebSocket,
-      target: WebSocket,
       data: string | ArrayBuffer,
-    ) => {
+    ): void => {
       const isClientSource = source === clientSocket
       const direction = isClientSource ? 'CLIENT→PROXY' : 'BROWSER→PROXY'
       const path = source._path ?? 'unknown'
       
-      logMessage(direction, data, path)
+      this.logMessage(direction, data, path)
+      // Queued messages count too, plugins may be holding them up
+      const heartbeat = isClientSource ? undefined : this.heartbeats.get(sessionId)
+      heartbeat && (heartbeat.chromeActive = true)
 
       try {
         const message =
           data instanceof ArrayBuffer ? new TextDecoder().decode(data) : data
         const parsedMessage = JSON.parse(message) as CDPMessage
-        
-        const processedMessage = this.pluginManager
-          ? await this.processPluginMessage(parsedMessage, isClientSource)
-          : parsedMessage
 
-        if (!processedMessage) return
+        // Responses to plugin commands are consumed by the PluginManager. They
+        // skip the queue, the hook waiting for them may be holding it up.
+        if (
+          !isClientSource &&
+          this.isCommandResponse(parsedMessage) &&
+          this.pluginManager?.isPluginCommandId(parsedMessage.id)
+        ) return
 
-        const outDirection = isClientSource ? 'PROXY→BROWSER' : 'PROXY→CLIENT'
-        const outMessage = JSON.stringify(processedMessage)
-        const state = this.connectionStates.get(sessionId)
+        this.enqueueMessage(
+          sessionId,
+          isClientSource ? 'client' : 'chrome',
+          {
+            message: parsedMessage,
+            size: data instanceof ArrayBuffer
+              ? data.byteLength
+              : new TextEncoder().encode(data).byteLength,
+          },
+          () => processMessage(source, parsedMessage),
+        )
+      } catch (error) {
+        reportError(isClientSource ? 'client' : 'chrome', error)
+      }
+    }
 
-        if (!state) {
-          this.bufferMessage(sessionId, isClientSource, outMessage)
+    const processMessage = async (
+      source: WebSocket,
+      parsedMessage: CDPMessage,
+    ): Promise<void> => {
+      const isClientSource = source === clientSocket
+      const path = source._path ?? 'unknown'
+
+      try {
+        let command: WebSocketInFlightCommand | undefined
+        if (!isClientSource && this.isCommandResponse(parsedMessage)) {
+          command = this.releaseCommandId(sessionId, parsedMessage.id)
+          parsedMessage.id = command?.clientId ?? parsedMessage.id
+        }
+        if (command?.internal) {
+          'error' in parsedMessage && console.warn(
+            `[CDP PROXY] Proxy command ${command.request.method} failed for session ${sessionId}:`,
+            parsedMessage.error,
+          )
           return
         }
 
-        const canSend = this.canSendMessage(isClientSource, clientSocket, chromeSocket)
-        canSend
-          ? (logMessage(outDirection, outMessage, path), target.send(outMessage))
-          : this.bufferMessage(
-              sessionId,
-              isClientSource,
-              outMessage,
-              this.getSocketStateMessage(isClientSource, clientSocket, chromeSocket),
-            )
+        const processedMessages = this.pluginManager
+          ? await this.pluginManager.processMessage(parsedMessage, {
+              direction: isClientSource ? 'client' : 'chrome',
+              proxySessionId: sessionId,
+              path: source._path,
+              ...(command && {
+                request: command.request,
+                latency: Date.now() - command.sentAt,
+              }),
+            })
+          : [parsedMessage]
+
+        this.deliverMessages(sessionId, processedMessages, isClientSource ? 'client' : 'chrome', path)
       } catch (error) {
-        console.error(`[CDP PROXY] Error handling message:`, error)
-        this.handleWebSocketError(isClientSource ? 'client' : 'chrome', error, sessionId)
+        reportError(isClientSource ? 'client' : 'chrome', error)
       }
     }
 
-    clientSocket.onmessage = ({ data }) => handleMessage(clientSocket, chromeSocket, data)
-    chromeSocket.onmessage = ({ data }) => handleMessage(chromeSocket, clientSocket, data)
+    clientSocket.onmessage = ({ data }) => handleMessage(clientSocket, data)
+    chromeSocket.onmessage = ({ data }) => handleMessage(chromeSocket, data)
+  }
+
+  /**
+   * Runs a message through the plugin pipeline once every earlier message
+   * from the same side of the session has been delivered, so plugins that
+   * take longer can't reorder messages. Sessions, and the two directions of a
+   * session, don't wait for each other.
+   * @param process Handles its own errors
+   */
+  private enqueueMessage = (
+    sessionId: string,
+    source: WebSocketSource,
+    entry: WebSocketQueuedMessage,
+    process: () => Promise<void>,
+  ): void => {
+    const createQueue = (): WebSocketMessageQueue => ({
+      tail: Promise.resolve(),
+      depth: 0,
+      maxDepth: 0,
+      paused: false,
+      pauseCount: 0,
+      waiting: [],
+      bytes: 0,
+      dropped: 0,
+    })
+    const queues = this.messageQueues.get(sessionId) ?? { client: createQueue(), chrome: createQueue() }
+    this.messageQueues.set(sessionId, queues)
+
+    const queue = queues[source]
+    if (!this.admitMessage(sessionId, source, queue, entry)) return
+
+    // Messages leave in order and the overflow policy drops the oldest, so a
+    // message still waiting is always first
+    const isWaiting = (): boolean => queue.waiting[0] === entry
+    queue.depth++
+    queue.maxDepth = Math.max(queue.maxDepth, queue.depth)
+    queue.tail = queue.tail
+      .then(() => isWaiting() ? this.waitForDrain(sessionId, source, queue) : undefined)
+      .then(() => {
+        if (!isWaiting()) return
+        queue.waiting.shift()
+        queue.bytes -= entry.size
+        return process()
+      })
+      .finally(() => queue.depth--)
+  }
+
+  /**
+   * Applies the overflow policy once the messages waiting in a queue would
+   * take more than `maxSize` bytes. Deno's WebSocket keeps reading while a
+   * queue is paused, so this is what bounds the memory the faster side uses.
+   * Chrome's messages are never dropped, a client that misses responses or
+   * events can't recover, so their queue closes the session instead.
+   * @returns Whether the message was queued
+   */
+  private admitMessage = (
+    sessionId: string,
+    source: WebSocketSource,
+    queue: WebSocketMessageQueue,
+    entry: WebSocketQueuedMessage,
+  ): boolean => {
+    const { maxSize } = this.buffer
+    const fits = (): boolean => queue.bytes + entry.size <= maxSize
+    // A message that would wait alone is let through whatever its size
+    if (fits() || !queue.waiting.length) {
+      queue.waiting.push(entry)
+      queue.bytes += entry.size
+      return true
+    }
+
+    const policy = source === 'chrome' ? 'close' : this.buffer.overflowPolicy
+    const dropOldest = policy === 'drop-oldest' && entry.size <= maxSize
+    const dropped: WebSocketQueuedMessage[] = []
+    while (dropOldest && !fits()) {
+      const oldest = queue.waiting.shift()!
+      queue.bytes -= oldest.size
+      dropped.push(oldest)
+    }
+    if (!dropOldest) dropped.push(entry)
+    const action = dropOldest
+      ? `dropped ${dropped.length} oldest messages`
+      : policy === 'close'
+      ? 'closing the session'
+      : 'rejecting a message'
+    queue.dropped += dropped.length
+    this.errorHandler.handleError({
+      type: CDPErrorType.RESOURCE,
+      code: 1009,
+      message: `Queue limit reached for ${source} messages of session ${sessionId}, ${action}`,
+      recoverable: true,
+      details: { sessionId, source, size: entry.size, bytes: queue.bytes, policy },
+    })
+
+    if (source === 'client') {
+      // Answered, so the client doesn't wait for their responses forever
+      dropped.forEach(({ message }) =>
+        'id' in message && 'method' in message && this.sendErrorResponse(
+          sessionId,
+          message,
+          CDPErrorType.RESOURCE,
+          'Command rejected, the proxy queue for this session is full',
+        )
+      )
+    }
+
+    if (dropOldest) {
+      queue.waiting.push(entry)
+      queue.bytes += entry.size
+      return true
+    }
+    if (policy === 'close') {
+      queue.waiting = []
+      queue.bytes = 0
+      const state = this.connectionStates.get(sessionId)
+      ;[state?.clientSocket, state?.chromeSocket].forEach((socket) =>
+        socket && socket.readyState !== WebSocket.CLOSED && socket.close(1000, 'Queue limit exceeded')
+      )
+    }
+    return false
   }
 
-  private processPluginMessage = async (
+  /**
+   * Holds a queue back once the socket its messages go to has more than the
+   * high-water mark waiting to be sent, until that drains below the low-water
+   * mark. Deno's WebSocket reads eagerly, so the faster side's messages wait
+   * in the queue, before plugins spend time on them.
+   */
+  private waitForDrain = async (
+    sessionId: string,
+    source: WebSocketSource,
+    queue: WebSocketMessageQueue,
+  ): Promise<void> => {
+    const { highWaterMark, lowWaterMark } = this.buffer
+    const getTarget = (): WebSocket | undefined => {
+      const state = this.connectionStates.get(sessionId)
+      return source === 'client' ? state?.chromeSocket : state?.clientSocket
+    }
+    // Closed sockets and ended sessions never drain
+    const isBackedUp = (limit: number): boolean => {
+      const target = getTarget()
+      return target?.readyState === WebSocket.OPEN && target.bufferedAmount > limit
+    }
+    if (!isBackedUp(highWaterMark)) return
+
+    queue.paused = true
+    queue.pauseCount++
+    console.log(
+      `[CDP PROXY] Pausing ${source} messages for session ${sessionId}, ${getTarget()!.bufferedAmount} bytes waiting to be sent`,
+    )
+    while (isBackedUp(lowWaterMark)) {
+      await new Promise((resolve) => setTimeout(resolve, WEBSOCKET_MANAGER.DRAIN_CHECK_INTERVAL))
+    }
+    queue.paused = false
+    console.log(`[CDP PROXY] Resuming ${source} messages for session ${sessionId}`)
+  }
+
+  /**
+   * Returns how many messages from each side of a session are waiting for or
+   * in the plugin pipeline, how many bytes wait, and whether they wait for the
+   * other side to drain
+   */
+  getQueueStats = (sessionId: string): WebSocketQueueStats => {
+    const { client, chrome } = this.messageQueues.get(sessionId) ?? {}
+    const toStats = (queue?: WebSocketMessageQueue) => ({
+      depth: queue?.depth ?? 0,
+      maxDepth: queue?.maxDepth ?? 0,
+      paused: queue?.paused ?? false,
+      pauseCount: queue?.pauseCount ?? 0,
+      bytes: queue?.bytes ?? 0,
+      dropped: queue?.dropped ?? 0,
+    })
+    return { client: toStats(client), chrome: toStats(chrome) }
+  }
+
+  /**
+   * Delivers messages the plugins processed as if they came from `source`.
+   * Also used for messages plugins held and released later.
+   */
+  deliverMessages = (
+    sessionId: string,
+    messages: CDPMessage[],
+    source: WebSocketSource,
+    path?: string,
+  ): void => {
+    for (const message of messages) {
+      // Plugins may answer a client request themselves, in which case the
+      // response goes straight back to the client
+      const toChrome = source === 'client' && 'method' in message
+      this.deliverMessage(sessionId, message, toChrome, path)
+    }
+  }
+
+  /**
+   * Sends an event a plugin emitted to the client behind the messages already
+   * queued for it, so it can't overtake the responses and events before it.
+   * Returns once the event is queued.
+   */
+  queueClientEvent = (sessionId: string, event: CDPEvent): void =>
+    this.enqueueMessage(
+      sessionId,
+      'chrome',
+      { message: event, size: new TextEncoder().encode(JSON.stringify(event)).byteLength },
+      async () => this.deliverMessages(sessionId, [event], 'chrome'),
+    )
+
+  private logMessage = (
+    direction: string,
+    data: string | ArrayBuffer,
+    path: string,
+  ): void =>
+    console.debug(
+      `[CDP PROXY] %c${direction}%c | Path ${path} |`,
+      WEBSOCKET_MANAGER.LOG_STYLE,
+      '',
+      Deno.inspect(
+        data instanceof ArrayBuffer ? new TextDecoder().decode(data) : data,
+        { colors: true, depth: 1 },
+      ),
+    )
+
+  /**
+   * Sends a processed message to Chrome or the client, buffering it while the
+   * target socket isn't ready
+   */
+  private deliverMessage = (
+    sessionId: string,
     message: CDPMessage,
-    isClientSource: boolean,
-  ): Promise<CDPMessage | null> => {
-    if (!this.pluginManager) return message
-    
-    return !isClientSource && 'id' in message && !('method' in message)
-      ? await this.pluginManager.processResponse(message as CDPCommandResponse)
-      : await this.pluginManager.processMessage(message)
+    toChrome: boolean,
+    path = 'unknown',
+  ): void => {
+    const isCommand = toChrome && 'id' in message && 'method' in message
+    const outMessage = JSON.stringify(
+      isCommand ? { ...message, id: this.allocateCommandId(sessionId, message) } : message,
+    )
+    const state = this.connectionStates.get(sessionId)
+
+    if (!state) {
+      this.bufferMessage(sessionId, toChrome, outMessage)
+      return
+    }
+
+    const { clientSocket, chromeSocket } = state
+    if (!this.canSendMessage(toChrome, clientSocket, chromeSocket)) {
+      this.bufferMessage(
+        sessionId,
+        toChrome,
+        outMessage,
+        this.getSocketStateMessage(toChrome, clientSocket, chromeSocket),
+      )
+      return
+    }
+
+    // Buffered commands are recorded when they're flushed, a reconnect would
+    // otherwise send them twice, as setup and from the buffer
+    isCommand && this.recordSessionSetup(sessionId, message)
+    this.logMessage(toChrome ? 'PROXY→BROWSER' : 'PROXY→CLIENT', outMessage, path)
+    ;(toChrome ? chromeSocket : clientSocket).send(outMessage)
+  }
+
+  private isCommandResponse = (message: CDPMessage): message is CDPCommandResponse =>
+    'id' in message && !('method' in message)
+
+  /**
+   * Picks the id a client command is sent to Chrome with and tracks the
+   * command until its response arrives. The client's own id is kept unless it
+   * is already in flight or falls in the plugin id range.
+   */
+  private allocateCommandId = (
+    sessionId: string,
+    request: CDPCommandRequest,
+    internal = false,
+  ): number => {
+    const { id } = request
+    const idMap = this.commandIdMaps.get(sessionId) ?? { nextId: 1, commands: new Map() }
+    this.commandIdMaps.set(sessionId, idMap)
+
+    let proxyId = id
+    if (id >= WEBSOCKET_MANAGER.PLUGIN_COMMAND_ID_BASE || id < 0 || idMap.commands.has(id)) {
+      do {
+        proxyId = idMap.nextId
+        idMap.nextId = idMap.nextId + 1 < WEBSOCKET_MANAGER.PLUGIN_COMMAND_ID_BASE
+          ? idMap.nextId + 1
+          : 1
+      } while (idMap.commands.has(proxyId))
+    }
+
+    idMap.commands.set(proxyId, {
+      clientId: id,
+      request,
+      sentAt: Date.now(),
+      ...(internal && { internal }),
+    })
+    return proxyId
+  }
+
+  /**
+   * Remembers the commands that set up what Chrome sends a session, so a
+   * reconnect can issue them again. Commands for attached targets are left
+   * out, their sessions end with the socket and auto-attach creates new ones.
+   */
+  private recordSessionSetup = (sessionId: string, request: CDPCommandRequest): void => {
+    const [, domain, action] = request.method.match(/^(\w+)\.(enable|disable)$/) ?? []
+    if (request.sessionId || (!domain && request.method !== 'Target.setAutoAttach')) return
+
+    const setup = this.sessionSetup.get(sessionId) ?? new Map<string, CDPCommandRequest>()
+    this.sessionSetup.set(sessionId, setup)
+    const key = domain ?? request.method
+    setup.delete(key)
+    action !== 'disable' && setup.set(key, request)
+  }
+
+  /**
+   * Stops tracking the command a response from Chrome answers
+   * @returns The command, which holds the id the client used
+   */
+  private releaseCommandId = (
+    sessionId: string,
+    proxyId: number,
+  ): WebSocketInFlightCommand | undefined => {
+    const commands = this.commandIdMaps.get(sessionId)?.commands
+    const command = commands?.get(proxyId)
+    commands?.delete(proxyId)
+    return command
   }
 
   private canSendMessage = (
@@ -279,10 +704,179 @@ export class WebSocketManager {
       console.debug(
         `[CDP PROXY] Cannot send message (${reason}), buffering message`,
       )
+    const { maxSize, maxBufferSize, maxMessageSize, overflowPolicy } = this.buffer
+    const limit = Math.min(maxSize, maxBufferSize)
     const pending = this.pendingMessages.get(sessionId) ?? []
-    pending.length >= WEBSOCKET_MANAGER.MAX_PENDING_MESSAGES && pending.shift()
-    pending.push({ source: isClientSource ? 'client' : 'chrome', message })
     this.pendingMessages.set(sessionId, pending)
+    const entry: WebSocketPendingMessage = {
+      source: isClientSource ? 'client' : 'chrome',
+      message,
+      size: new TextEncoder().encode(message).byteLength,
+    }
+
+    let { bytes } = this.getBufferUsage(sessionId)
+    const fits = (): boolean =>
+      bytes + entry.size <= limit && pending.length < WEBSOCKET_MANAGER.MAX_PENDING_MESSAGES
+    // Dropping older messages can't make room for one bigger than the buffer
+    const isTooBig = entry.size > Math.min(maxMessageSize, limit)
+    if (isTooBig || (!fits() && overflowPolicy !== 'drop-oldest')) {
+      this.handleBufferOverflow(sessionId, entry)
+      return
+    }
+
+    let dropped = 0
+    for (; !fits() && pending.length; dropped++) {
+      const oldest = pending.shift()!
+      bytes -= oldest.size
+      this.rejectCommand(sessionId, oldest)
+    }
+    dropped && this.errorHandler.handleError({
+      type: CDPErrorType.RESOURCE,
+      code: 1009,
+      message: `Buffer limit reached for session ${sessionId}, dropped ${dropped} oldest messages`,
+      recoverable: true,
+      details: { sessionId, dropped },
+    })
+
+    pending.push(entry)
+    this.checkBufferUsage(sessionId)
+    this.updateBufferSweeper()
+  }
+
+  /**
+   * Applies the overflow policy to a message that doesn't fit its session's
+   * buffer. Messages bigger than `maxMessageSize` are rejected unless the
+   * policy closes the session.
+   */
+  private handleBufferOverflow = (
+    sessionId: string,
+    entry: WebSocketPendingMessage,
+  ): void => {
+    const { overflowPolicy } = this.buffer
+    this.errorHandler.handleError({
+      type: CDPErrorType.RESOURCE,
+      code: 1009,
+      message: `Buffer limit reached for session ${sessionId}, ${
+        overflowPolicy === 'close' ? 'closing the session' : 'rejecting a message'
+      }`,
+      // The other sessions are fine
+      recoverable: true,
+      details: { sessionId, size: entry.size, ...this.getBufferUsage(sessionId), policy: overflowPolicy },
+    })
+
+    if (overflowPolicy !== 'close') {
+      this.rejectCommand(sessionId, entry)
+      return
+    }
+
+    this.pendingMessages.set(sessionId, [])
+    const state = this.connectionStates.get(sessionId)
+    ;[state?.clientSocket, state?.chromeSocket].forEach((socket) =>
+      socket && socket.readyState !== WebSocket.CLOSED && socket.close(1000, 'Buffer limit exceeded')
+    )
+  }
+
+  /**
+   * Answers a client command that was rejected, so the client doesn't wait
+   * for its response forever
+   */
+  private rejectCommand = (
+    sessionId: string,
+    { source, message }: WebSocketPendingMessage,
+  ): void => {
+    const command = JSON.parse(message) as CDPMessage
+    if (source !== 'client' || !('id' in command && 'method' in command)) return
+
+    // The command was already given the id it would be sent to Chrome with
+    const clientId = this.releaseCommandId(sessionId, command.id)?.clientId ?? command.id
+    this.sendErrorResponse(
+      sessionId,
+      { ...command, id: clientId },
+      CDPErrorType.RESOURCE,
+      'Command rejected, the proxy buffer for this session is full',
+    )
+  }
+
+  private sendErrorResponse = (
+    sessionId: string,
+    request: CDPCommandRequest,
+    type: CDPErrorType,
+    message: string,
+  ): void => {
+    const clientSocket = this.connectionStates.get(sessionId)?.clientSocket
+    const response: CDPCommandResponse = {
+      id: request.id,
+      error: {
+        type,
+        code: -32000, // CDP server error
+        message,
+        recoverable: true,
+      },
+      ...(request.sessionId && { sessionId: request.sessionId }),
+    }
+    clientSocket?.readyState === WebSocket.OPEN && clientSocket.send(JSON.stringify(response))
+  }
+
+  /**
+   * Returns how much is buffered for a session while its sockets aren't ready
+   */
+  getBufferUsage = (sessionId: string): BufferUsage => {
+    const pending = this.pendingMessages.get(sessionId) ?? []
+    return {
+      bytes: pending.reduce((total, { size }) => total + size, 0),
+      messages: pending.length,
+    }
+  }
+
+  private checkBufferUsage = (sessionId: string): void => {
+    const { bytes, messages } = this.getBufferUsage(sessionId)
+    if (bytes < this.buffer.warningThreshold) {
+      this.bufferWarnings.delete(sessionId)
+      return
+    }
+    if (this.bufferWarnings.has(sessionId)) return
+
+    this.bufferWarnings.add(sessionId)
+    console.warn(
+      `[CDP PROXY] Session ${sessionId} has ${bytes} bytes in ${messages} buffered messages`,
+    )
+  }
+
+  // The sweeper only runs while messages are buffered
+  private updateBufferSweeper = (): void => {
+    const isBuffering = [...this.pendingMessages.values()].some((pending) => pending.length)
+    if (isBuffering) {
+      this.bufferSweeper ??= setInterval(this.sweepBuffers, this.buffer.cleanupInterval)
+    } else if (this.bufferSweeper !== undefined) {
+      clearInterval(this.bufferSweeper)
+      this.bufferSweeper = undefined
+    }
+  }
+
+  /**
+   * Drops buffered messages whose socket closed before they could be sent,
+   * and warns about sessions still over the warning threshold
+   */
+  private sweepBuffers = (): void => {
+    const isClosed = (socket?: WebSocket): boolean =>
+      !socket || socket.readyState === WebSocket.CLOSED
+
+    for (const [sessionId, pending] of this.pendingMessages) {
+      // Buffered commands wait for the new Chrome socket
+      if (this.reconnecting.has(sessionId)) continue
+      const state = this.connectionStates.get(sessionId)
+      const deliverable = pending.filter(({ source }) =>
+        !isClosed(source === 'client' ? state?.chromeSocket : state?.clientSocket)
+      )
+      deliverable.length < pending.length &&
+        console.debug(
+          `[CDP PROXY] Dropped ${pending.length - deliverable.length} undeliverable buffered messages for session ${sessionId}`,
+        )
+
+      state ? this.pendingMessages.set(sessionId, deliverable) : this.pendingMessages.delete(sessionId)
+      this.checkBufferUsage(sessionId)
+    }
+    this.updateBufferSweeper()
   }
 
   private setupErrorHandling = (
@@ -310,19 +904,20 @@ export class WebSocketManager {
       }})
     }
 
+    // Sockets of a session that was cleaned up, or of a Chrome connection
+    // that was replaced, must not bring its state back
+    const isCurrent = (): boolean => {
+      const state = this.connectionStates.get(sessionId)
+      return state?.clientSocket === clientSocket && state.chromeSocket === chromeSocket
+    }
+
     const handleSocketEvent = (source: WebSocketSource) => ({
       open: (_: Event) => {
         logConnection(source, 'CONNECTED')
+        if (!isCurrent()) return
         updateConnectionState(source, true)
 
-        const state = this.connectionStates.get(sessionId) ?? {
-          clientReady: source === 'client',
-          chromeReady: source === 'chrome',
-          clientSocket,
-          chromeSocket,
-        }
-        this.connectionStates.set(sessionId, state)
-
+        const state = this.connectionStates.get(sessionId)!
         const bothReady = state.clientReady && 
           state.chromeReady && 
           clientSocket.readyState === WebSocket.OPEN && 
@@ -339,7 +934,18 @@ export class WebSocketManager {
           wasClean: ev?.wasClean,
           cleanupInProgress: this.cleanupInProgress.has(sessionId),
         })
+        if (!isCurrent()) return
         !this.cleanupInProgress.has(sessionId) && updateConnectionState(source, false)
+        source === 'chrome' &&
+          this.reconnectOptions.has(sessionId) &&
+          clientSocket.readyState === WebSocket.OPEN &&
+          !this.cleanupInProgress.has(sessionId) &&
+          this.reconnectChrome(sessionId, clientSocket, chromeSocket)
+
+        // Nothing buffered for the session can be delivered anymore
+        const bothClosed = [clientSocket, chromeSocket].every((socket) => socket.readyState === WebSocket.CLOSED)
+        bothClosed && this.pendingMessages.delete(sessionId)
+        this.updateBufferSweeper()
       },
       error: (ev: Event | ErrorEvent) => {
         this.handleWebSocketError(source, ev, sessionId)
@@ -374,10 +980,12 @@ export class WebSocketManager {
     const sendMessages = (messages: WebSocketPendingMessage[], target: WebSocket): void =>
       messages.forEach(({ message }) => target.send(message))
 
-    socketStates.toChrome && sendMessages(
-      pending.filter(m => m.source === 'client'),
-      chromeSocket
-    )
+    const commands = pending.filter(m => m.source === 'client')
+    socketStates.toChrome && commands.forEach(({ message }) => {
+      const command = JSON.parse(message) as CDPMessage
+      'id' in command && 'method' in command && this.recordSessionSetup(sessionId, command)
+    })
+    socketStates.toChrome && sendMessages(commands, chromeSocket)
 
     socketStates.toClient && sendMessages(
       pending.filter(m => m.source === 'chrome'),
@@ -385,6 +993,8 @@ export class WebSocketManager {
     )
 
     socketStates.toChrome && socketStates.toClient && this.pendingMessages.set(sessionId, [])
+    this.checkBufferUsage(sessionId)
+    this.updateBufferSweeper()
   }
 
   private handleWebSocketError = (
@@ -411,6 +1021,137 @@ export class WebSocketManager {
         })
   }
 
+  /**
+   * Opens a new Chrome socket for a session whose Chrome socket dropped while
+   * the client stayed connected. Client messages are buffered meanwhile, and
+   * once connected the session's setup commands are issued again before the
+   * buffered ones.
+   */
+  private reconnectChrome = async (
+    sessionId: string,
+    clientSocket: WebSocket,
+    droppedSocket: WebSocket,
+  ): Promise<void> => {
+    const options = this.reconnectOptions.get(sessionId)
+    if (!options || this.reconnecting.has(sessionId)) return
+
+    this.reconnecting.add(sessionId)
+    this.failInFlightCommands(sessionId)
+    console.log(`[CDP PROXY] Chrome connection for session ${sessionId} dropped, reconnecting`)
+
+    try {
+      for (let attempt = 1; attempt <= WEBSOCKET_MANAGER.RECONNECT_ATTEMPTS; attempt++) {
+        attempt > 1 && await new Promise((resolve) =>
+          setTimeout(resolve, WEBSOCKET_MANAGER.RECONNECT_DELAY * 2 ** (attempt - 2))
+        )
+        // The client left or the session was cleaned up meanwhile
+        if (clientSocket.readyState !== WebSocket.OPEN || !this.connectionStates.has(sessionId)) return
+
+        try {
+          const chromeSocket = await this.openChromeSocket(await options.getUrl(), options.connect)
+          if (clientSocket.readyState !== WebSocket.OPEN || !this.connectionStates.has(sessionId)) {
+            chromeSocket.close()
+            return
+          }
+          this.resumeSession(sessionId, clientSocket, droppedSocket, chromeSocket)
+          options.onReconnect?.(chromeSocket)
+          return
+        } catch (error) {
+          console.warn(
+            `[CDP PROXY] Reconnect attempt ${attempt} for session ${sessionId} failed:`,
+            error instanceof Error ? error.message : error,
+          )
+        }
+      }
+
+      this.errorHandler.handleError({
+        type: CDPErrorType.CONNECTION,
+        code: 1011,
+        message: `Could not reconnect to Chrome for session ${sessionId}, closing the session`,
+        recoverable: true,
+        details: { sessionId, attempts: WEBSOCKET_MANAGER.RECONNECT_ATTEMPTS },
+      })
+      clientSocket.close(1011, 'Chrome connection lost')
+    } finally {
+      this.reconnecting.delete(sessionId)
+    }
+  }
+
+  private openChromeSocket = (
+    url: string,
+    connect = (url: string): WebSocket => new WebSocket(url),
+  ): Promise<WebSocket> => {
+    const socket = connect(url)
+    if (socket.readyState === WebSocket.OPEN) return Promise.resolve(socket)
+
+    return new Promise<WebSocket>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        socket.close()
+        reject(new Error(`Chrome WebSocket connection timeout after ${WEBSOCKET_MANAGER.RECONNECT_TIMEOUT}ms`))
+      }, WEBSOCKET_MANAGER.RECONNECT_TIMEOUT)
+      socket.addEventListener('open', () => {
+        clearTimeout(timeout)
+        resolve(socket)
+      }, { once: true })
+      socket.addEventListener('error', () => {
+        clearTimeout(timeout)
+        reject(new Error(`Chrome WebSocket connection to ${url} failed`))
+      }, { once: true })
+    })
+  }
+
+  /**
+   * Answers the commands Chrome never responded to before its socket dropped,
+   * they may or may not have run. Buffered commands are sent after the
+   * reconnect instead.
+   */
+  private failInFlightCommands = (sessionId: string): void => {
+    const commands = this.commandIdMaps.get(sessionId)?.commands
+    const buffered = new Set(
+      (this.pendingMessages.get(sessionId) ?? [])
+        .filter(({ source }) => source === 'client')
+        .map(({ message }) => (JSON.parse(message) as Partial<CDPCommandRequest>).id),
+    )
+
+    for (const [proxyId, { clientId, request, internal }] of commands ?? []) {
+      if (buffered.has(proxyId)) continue
+      commands!.delete(proxyId)
+      internal || this.sendErrorResponse(
+        sessionId,
+        { ...request, id: clientId },
+        CDPErrorType.CONNECTION,
+        'Chrome connection lost before the command was answered',
+      )
+    }
+  }
+
+  private resumeSession = (
+    sessionId: string,
+    clientSocket: WebSocket,
+    droppedSocket: WebSocket,
+    chromeSocket: WebSocket,
+  ): void => {
+    Object.assign(chromeSocket, { _path: droppedSocket._path })
+    this.socketToSession.delete(droppedSocket)
+    this.ensureSessionState(sessionId, clientSocket, chromeSocket)
+    this.socketToSession.set(chromeSocket, sessionId)
+    this.setupMessageHandling(clientSocket, chromeSocket, sessionId)
+
+    // Chrome handles a socket's commands in order, so these run before the
+    // buffered ones, which are flushed once error handling sees the open socket
+    const setup = [...(this.sessionSetup.get(sessionId)?.values() ?? [])]
+    setup.forEach((request) =>
+      chromeSocket.send(JSON.stringify({ ...request, id: this.allocateCommandId(sessionId, request, true) }))
+    )
+    console.log(
+      `[CDP PROXY] Reconnected Chrome for session ${sessionId}, replayed ${setup.length} setup commands`,
+    )
+    this.reconnecting.delete(sessionId)
+    const heartbeat = this.heartbeats.get(sessionId)
+    heartbeat && Object.assign(heartbeat, { chromeActive: true, probed: false, missed: 0 })
+    this.setupErrorHandling(clientSocket, chromeSocket, sessionId)
+  }
+
   /**
    * Cleans up resources for a specific session
    * @param sessionId - The ID of the session to clean up
@@ -425,11 +1166,16 @@ export class WebSocketManager {
 
     this.cleanupInProgress.add(sessionId)
     try {
-      const state = this.connectionStates.get(sessionId)
-      state && [...this.heartbeatIntervals.keys()].forEach(this.clearHeartbeat)
+      this.clearHeartbeat(sessionId)
       
       this.connectionStates.delete(sessionId)
       this.pendingMessages.delete(sessionId)
+      this.commandIdMaps.delete(sessionId)
+      this.messageQueues.delete(sessionId)
+      this.bufferWarnings.delete(sessionId)
+      this.reconnectOptions.delete(sessionId)
+      this.sessionSetup.delete(sessionId)
+      this.updateBufferSweeper()
       this.socketToSession.clear()
       
       console.debug(`[CDP PROXY] Cleanup completed for session ${sessionId}`)
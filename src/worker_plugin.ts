@@ -0,0 +1,390 @@
+import { basename, dirname, fromFileUrl } from 'jsr:@std/path'
+import { BaseCDPPlugin } from './base_cdp_plugin.ts'
+import type {
+  CDPCommandRequest,
+  CDPCommandResponse,
+  CDPEvent,
+  CDPMessage,
+  CDPPlugin,
+  CDPTargetInfo,
+  PluginConfig,
+  PluginContext,
+  PluginHookName,
+  PluginHookResult,
+  PluginMethodHandler,
+  PluginPermissions,
+  PluginWorkerCall,
+  PluginWorkerDescriptor,
+  PluginWorkerRequest,
+  PluginWorkerResponse,
+  Session,
+} from './types.ts'
+import { PLUGIN_MANAGER, PLUGIN_WORKER } from './constants.ts'
+
+type PluginWorkerResult = Extract<PluginWorkerResponse, { type: 'result' }>
+
+interface PendingCall {
+  resolve: (value: PluginWorkerResult) => void
+  reject: (reason?: unknown) => void
+}
+
+type WorkerSession = Pick<Session, 'id' | 'chromeWsUrl' | 'active' | 'createdAt'>
+
+const WORKER_URL = new URL('./plugin_worker.ts', import.meta.url).href
+// Workers need to read the proxy sources to load a plugin
+const SOURCE_DIR = fromFileUrl(new URL('.', import.meta.url))
+
+const HOOKS: PluginHookName[] = [
+  'onRequest',
+  'onResponse',
+  'onEvent',
+  'onSessionStart',
+  'onSessionEnd',
+  'onTargetAttached',
+  'onTargetDetached',
+]
+
+/**
+ * Runs a plugin in its own Deno Worker with only the permissions the plugin
+ * declares, and relays hooks to it. Crashed or hung workers are restarted.
+ */
+export class WorkerPlugin extends BaseCDPPlugin {
+  name: string
+  private worker: Worker | null = null
+  private ready: Promise<void> = Promise.resolve()
+  private readonly pendingCalls = new Map<number, PendingCall>()
+  private callId = 0
+  private closed = false
+  // The config the worker last received, forwarded again whenever it changes
+  private workerConfig: PluginConfig | undefined
+
+  private constructor(
+    private readonly url: string,
+    private readonly exportName: string | undefined,
+    private readonly descriptor: PluginWorkerDescriptor,
+  ) {
+    super()
+    this.name = descriptor.name
+    this.apiVersion = descriptor.apiVersion
+    this.dryRun = descriptor.dryRun
+    this.priority = descriptor.priority
+    this.before = descriptor.before
+    this.after = descriptor.after
+    this.hookTimeouts = descriptor.hookTimeouts
+    this.matcher = descriptor.matcher
+    this.permissions = descriptor.permissions
+    this.configSchema = descriptor.configSchema
+    this.customMethods = Object.fromEntries(
+      descriptor.customMethods.map((method): [string, PluginMethodHandler] => [
+        method,
+        (params, context) =>
+          this.call('customMethod', [params, this.toContextData(context)], method),
+      ]),
+    )
+
+    // Hooks the plugin doesn't implement are skipped without a round trip
+    HOOKS.filter((hook) => !descriptor.hooks.includes(hook))
+      .forEach((hook) => ((this as CDPPlugin)[hook] = undefined))
+  }
+
+  /**
+   * Loads a plugin module into a worker
+   * @param url URL or `jsr:`/`npm:` specifier of the plugin module
+   * @param exportName Export holding the plugin class, defaults to the default export
+   */
+  static async create(url: string, exportName?: string): Promise<WorkerPlugin> {
+    // Permissions are fixed when a worker starts, so a worker without any
+    // reads the ones the plugin declares first
+    const probe = WorkerPlugin.spawn(url, {})
+    const descriptor = await WorkerPlugin.initialize(probe, url, exportName).finally(() =>
+      probe.terminate()
+    )
+
+    const plugin = new WorkerPlugin(url, exportName, descriptor)
+    plugin.ready = plugin.start()
+    await plugin.ready
+    return plugin
+  }
+
+  override onRequest(
+    request: CDPCommandRequest,
+    context?: PluginContext,
+  ): Promise<PluginHookResult<CDPCommandRequest | CDPCommandResponse>> {
+    return this.callHook('onRequest', request, context)
+  }
+
+  override onResponse(
+    response: CDPCommandResponse,
+    context?: PluginContext,
+  ): Promise<PluginHookResult<CDPCommandResponse>> {
+    return this.callHook('onResponse', response, context)
+  }
+
+  override onEvent(
+    event: CDPEvent,
+    context?: PluginContext,
+  ): Promise<PluginHookResult<CDPEvent>> {
+    return this.callHook('onEvent', event, context)
+  }
+
+  override onSessionStart(session: Session): Promise<void> {
+    return this.call('onSessionStart', [this.toSessionData(session)])
+  }
+
+  override onSessionEnd(session: Session): Promise<void> {
+    return this.call('onSessionEnd', [this.toSessionData(session)])
+  }
+
+  override onTargetAttached(target: CDPTargetInfo, context: PluginContext): Promise<void> {
+    return this.call('onTargetAttached', [target, this.toContextData(context)])
+  }
+
+  override onTargetDetached(target: CDPTargetInfo, context: PluginContext): Promise<void> {
+    return this.call('onTargetDetached', [target, this.toContextData(context)])
+  }
+
+  /**
+   * Runs the plugin's own cleanup and stops the worker
+   */
+  override async cleanup(): Promise<void> {
+    // Set first so a cleanup that hangs or crashes doesn't restart the worker
+    this.closed = true
+    try {
+      await this.call('cleanup', [])
+    } finally {
+      this.stop(new Error(`Plugin ${this.name} was unloaded`))
+    }
+  }
+
+  private static spawn(url: string, permissions: PluginPermissions): Worker {
+    const { net = false, env = false, read = false } = permissions
+    // Packages resolve from the module cache, only local plugins need their directory
+    const sourceDirs = url.startsWith('file:')
+      ? [SOURCE_DIR, dirname(fromFileUrl(url))]
+      : [SOURCE_DIR]
+
+    return new Worker(WORKER_URL, {
+      type: 'module',
+      name: `plugin:${url.startsWith('file:') ? basename(fromFileUrl(url)) : url}`,
+      deno: {
+        permissions: {
+          net,
+          env,
+          read: read === true ? true : [...sourceDirs, ...(read || [])],
+          write: false,
+          run: false,
+          ffi: false,
+          sys: false,
+        },
+      },
+    })
+  }
+
+  /**
+   * Loads the plugin in a worker and waits until it reports what it is
+   */
+  private static initialize(
+    worker: Worker,
+    url: string,
+    exportName?: string,
+  ): Promise<PluginWorkerDescriptor> {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        reject(new Error(`Plugin worker for ${url} did not start within ${PLUGIN_WORKER.INIT_TIMEOUT_MS}ms`))
+      }, PLUGIN_WORKER.INIT_TIMEOUT_MS)
+
+      worker.onmessage = ({ data }: MessageEvent<PluginWorkerResponse>) => {
+        if (data.type !== 'ready') return
+        clearTimeout(timeoutId)
+        resolve(data.descriptor)
+      }
+      worker.onerror = (event) => {
+        event.preventDefault()
+        clearTimeout(timeoutId)
+        reject(new Error(`Plugin worker for ${url} failed to start: ${event.message}`))
+      }
+      worker.postMessage({ type: 'init', url, exportName } satisfies PluginWorkerRequest)
+    })
+  }
+
+  private async start(): Promise<void> {
+    const worker = WorkerPlugin.spawn(this.url, this.descriptor.permissions ?? {})
+    this.worker = worker
+    this.workerConfig = undefined
+    await WorkerPlugin.initialize(worker, this.url, this.exportName).catch((error) => {
+      worker.terminate()
+      this.worker = null
+      throw error
+    })
+
+    worker.onmessage = ({ data }: MessageEvent<PluginWorkerResponse>) =>
+      this.handleMessage(data)
+    worker.onerror = (event) => {
+      event.preventDefault()
+      this.restart(event.message)
+    }
+  }
+
+  /**
+   * Fails the calls in flight and starts a fresh worker
+   */
+  private restart(reason: string): void {
+    console.error(`[PLUGINS] Restarting worker for plugin ${this.name}: ${reason}`)
+    this.stop(new Error(`Plugin ${this.name} worker stopped: ${reason}`))
+    if (this.closed) return
+
+    this.ready = new Promise<void>((resolve) =>
+      setTimeout(resolve, PLUGIN_WORKER.RESTART_DELAY_MS)
+    )
+      .then(() => this.start())
+      .then(() => console.log(`[PLUGINS] Restarted worker for plugin ${this.name}`))
+      .catch((error) => {
+        console.error(`[PLUGINS] Failed to restart worker for plugin ${this.name}:`, error)
+        this.stop(error)
+      })
+  }
+
+  private stop(reason: Error): void {
+    this.worker?.terminate()
+    this.worker = null
+    this.pendingCalls.forEach(({ reject }) => reject(reason))
+    this.pendingCalls.clear()
+  }
+
+  private call = async <T>(
+    call: PluginWorkerCall,
+    args: unknown[],
+    method?: string,
+  ): Promise<T> => (await this.request(call, args, method)).result as T
+
+  /**
+   * Runs a message hook, holding the message when the plugin held it in the
+   * worker
+   */
+  private callHook = async <T>(
+    hook: PluginWorkerCall,
+    message: CDPMessage,
+    context?: PluginContext,
+  ): Promise<T> => {
+    const { result, held } = await this.request(hook, [message, this.toContextData(context)])
+    return (held && context ? context.hold(held.key, held.options) : result) as T
+  }
+
+  private request = async (
+    call: PluginWorkerCall,
+    args: unknown[],
+    method?: string,
+  ): Promise<PluginWorkerResult> => {
+    await this.ready
+    const worker = this.worker
+    if (!worker) throw new Error(`Worker for plugin ${this.name} is not running`)
+
+    if (this.config !== this.workerConfig) {
+      this.workerConfig = this.config
+      worker.postMessage({ type: 'configure', config: this.config ?? {} } satisfies PluginWorkerRequest)
+    }
+
+    const id = ++this.callId
+    const timeout = this.callTimeout(call)
+    return new Promise<PluginWorkerResult>((resolve, reject) => {
+      // A worker stuck in a call never answers again, so it is replaced
+      const timeoutId = setTimeout(
+        () => this.restart(`${method ?? call} did not finish within ${timeout}ms`),
+        timeout,
+      )
+      this.pendingCalls.set(id, {
+        resolve: (result) => {
+          clearTimeout(timeoutId)
+          resolve(result)
+        },
+        reject: (reason) => {
+          clearTimeout(timeoutId)
+          reject(reason)
+        },
+      })
+      worker.postMessage({ type: 'call', id, call, method, args } satisfies PluginWorkerRequest)
+    })
+  }
+
+  /**
+   * Same limit the plugin manager gives the hook, custom methods run as
+   * `onRequest`
+   */
+  private callTimeout(call: PluginWorkerCall): number {
+    const { hookTimeouts } = this
+    if (typeof hookTimeouts === 'number') return hookTimeouts
+    const hook = call === 'customMethod' ? 'onRequest' : call
+    return (hook === 'cleanup' ? undefined : hookTimeouts?.[hook]) ?? PLUGIN_MANAGER.HOOK_TIMEOUT_MS
+  }
+
+  private handleMessage = (message: PluginWorkerResponse): void => {
+    switch (message.type) {
+      case 'result': {
+        const pending = this.pendingCalls.get(message.id)
+        this.pendingCalls.delete(message.id)
+        message.error === undefined
+          ? pending?.resolve(message)
+          : pending?.reject(new Error(message.error))
+        return
+      }
+
+      case 'send':
+        this.reply(
+          message.id,
+          this.sendCDPCommand(message.endpoint, message.proxySessionId, {
+            ...message.command,
+            id: 0,
+          }),
+        )
+        return
+
+      case 'emit':
+        this.reply(message.id, this.emitClientEvent(message.proxySessionId, message.event))
+        return
+
+      case 'release':
+        this.reply(
+          message.id,
+          this.releaseHeldMessages(message.proxySessionId, message.key, message.replacement),
+        )
+        return
+
+      case 'drop':
+        this.reply(
+          message.id,
+          Promise.resolve().then(() => this.dropHeldMessages(message.proxySessionId, message.key)),
+        )
+        return
+    }
+  }
+
+  private reply(id: number, result: Promise<unknown>): void {
+    result
+      .then((result) => this.post({ type: 'reply', id, result }))
+      .catch((error) =>
+        this.post({
+          type: 'reply',
+          id,
+          error: error instanceof Error ? error.message : String(error),
+        })
+      )
+  }
+
+  private post = (message: PluginWorkerRequest): void => this.worker?.postMessage(message)
+
+  // Functions can't be sent to a worker, the worker rebuilds them
+  private toContextData = (context?: PluginContext) => {
+    if (!context) return undefined
+    const { send: _send, emit: _emit, hold: _hold, release: _release, drop: _drop, ...data } =
+      context
+    return data
+  }
+
+  // Sockets can't be sent to a worker either
+  private toSessionData = ({ id, chromeWsUrl, active, createdAt }: Session): WorkerSession => ({
+    id,
+    chromeWsUrl,
+    active,
+    createdAt,
+  })
+}
@@ -0,0 +1,36 @@
+import './test_setup.ts'
+import { assertEquals } from 'jsr:@std/assert'
+import { diffJson } from '../src/json_diff.ts'
+
+Deno.test('diffJson', async (t) => {
+  await t.step('should return nothing for equal values', () => {
+    assertEquals(diffJson({ a: [1, { b: null }] }, { a: [1, { b: null }] }), [])
+    assertEquals(diffJson(NaN, NaN), [])
+  })
+
+  await t.step('should list added, removed and replaced values by path', () => {
+    assertEquals(
+      diffJson(
+        { id: 1, params: { url: 'a', headers: ['x'] }, sessionId: 'S' },
+        { id: 1, params: { url: 'b', headers: ['x', 'y'], referrer: 'r' } },
+      ),
+      [
+        { op: 'replace', path: '/params/url', from: 'a', to: 'b' },
+        { op: 'add', path: '/params/headers/1', to: 'y' },
+        { op: 'add', path: '/params/referrer', to: 'r' },
+        { op: 'remove', path: '/sessionId', from: 'S' },
+      ],
+    )
+  })
+
+  await t.step('should replace values whose type changed', () => {
+    assertEquals(diffJson({ a: [1] }, { a: { 0: 1 } }), [
+      { op: 'replace', path: '/a', from: [1], to: { 0: 1 } },
+    ])
+    assertEquals(diffJson({ a: 1 }, null), [{ op: 'replace', path: '', from: { a: 1 }, to: null }])
+  })
+
+  await t.step('should escape keys in paths', () => {
+    assertEquals(diffJson({}, { 'a/b~c': 1 }), [{ op: 'add', path: '/a~1b~0c', to: 1 }])
+  })
+})
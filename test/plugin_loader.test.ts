@@ -0,0 +1,147 @@
+import './test_setup.ts'
+import { assertEquals, assertRejects } from 'jsr:@std/assert'
+import { PluginLoader } from '../src/plugin_loader.ts'
+import { PluginManager } from '../src/plugin_manager.ts'
+import { ErrorHandler } from '../src/error_handler.ts'
+import { SessionManager } from '../src/session_manager.ts'
+import { WebSocketManager } from '../src/websocket_manager.ts'
+import { SchemaValidator } from '../src/schema_validator.ts'
+
+const baseUrl = new URL('../src/base_cdp_plugin.ts', import.meta.url).href
+
+const pluginSource = (name: string) => `
+import { BaseCDPPlugin } from '${baseUrl}'
+export default class extends BaseCDPPlugin {
+  name = '${name}'
+  override async onEvent(event) { return event }
+}
+`
+
+const namedPluginSource = `
+import { BaseCDPPlugin } from '${baseUrl}'
+export class NamedPlugin extends BaseCDPPlugin {
+  name = 'named'
+  override configSchema = { type: 'object', properties: { level: { type: 'number', default: 1 } } }
+}
+`
+
+const waitFor = async (condition: () => boolean, timeout = 3000) => {
+  const start = Date.now()
+  while (!condition() && Date.now() - start < timeout) {
+    await new Promise((resolve) => setTimeout(resolve, 50))
+  }
+}
+
+Deno.test('PluginLoader', async (t) => {
+  const errorHandler = new ErrorHandler()
+  const wsManager = new WebSocketManager(errorHandler, new SchemaValidator(), null)
+  const pluginManager = new PluginManager(errorHandler, new SessionManager(errorHandler), wsManager)
+  const directory = await Deno.makeTempDir()
+  const loader = new PluginLoader(pluginManager, directory)
+
+  try {
+    await t.step('should load enabled plugins in file name order', async () => {
+      await Deno.writeTextFile(`${directory}/b.ts`, pluginSource('b'))
+      await Deno.writeTextFile(`${directory}/a.ts`, pluginSource('a'))
+      await Deno.writeTextFile(`${directory}/c.disabled.ts`, pluginSource('c'))
+
+      await loader.loadAll()
+      assertEquals(pluginManager.getPluginOrder(), ['a', 'b'])
+    })
+
+    await t.step('should reload changed, removed and renamed plugins', async () => {
+      loader.watch()
+
+      await Deno.writeTextFile(`${directory}/a.ts`, pluginSource('a2'))
+      await waitFor(() => pluginManager.getPluginOrder().includes('a2'))
+      assertEquals(pluginManager.getPluginOrder(), ['a2', 'b'])
+
+      await Deno.rename(`${directory}/b.ts`, `${directory}/b.disabled.ts`)
+      await waitFor(() => !pluginManager.getPluginOrder().includes('b'))
+      assertEquals(pluginManager.getPluginOrder(), ['a2'])
+
+      await Deno.rename(`${directory}/c.disabled.ts`, `${directory}/c.ts`)
+      await waitFor(() => pluginManager.getPluginOrder().includes('c'))
+      assertEquals(pluginManager.getPluginOrder(), ['a2', 'c'])
+
+      // A broken save keeps the working version until the file loads again
+      await Deno.writeTextFile(`${directory}/c.ts`, `${pluginSource('c2')} export default {`)
+      await new Promise((resolve) => setTimeout(resolve, 500))
+      assertEquals(pluginManager.getPluginOrder(), ['a2', 'c'])
+      await Deno.writeTextFile(`${directory}/c.ts`, pluginSource('c2'))
+      await waitFor(() => pluginManager.getPluginOrder().includes('c2'))
+      assertEquals(pluginManager.getPluginOrder(), ['a2', 'c2'])
+
+      await Deno.remove(`${directory}/a.ts`)
+      await waitFor(() => !pluginManager.getPluginOrder().includes('a2'))
+      assertEquals(pluginManager.getPluginOrder(), ['c2'])
+    })
+
+    await t.step('should keep plugins disabled across a reload', async () => {
+      await Deno.writeTextFile(`${directory}/d.ts`, pluginSource('d'))
+      await waitFor(() => pluginManager.getPluginOrder().includes('d'))
+      const findPlugin = () => pluginManager.getPlugins().find(({ name }) => name === 'd')
+      const previous = findPlugin()
+      pluginManager.disablePlugin('d')
+      pluginManager.enablePlugin('d', 'session-1')
+
+      await Deno.writeTextFile(`${directory}/d.ts`, `${pluginSource('d')}// changed\n`)
+      await waitFor(() => findPlugin() !== previous)
+      assertEquals(findPlugin() === previous, false, 'The plugin should be reloaded')
+      assertEquals(findPlugin()?.enabledState, { enabled: false, sessions: { 'session-1': true } })
+      await Deno.remove(`${directory}/d.ts`)
+      await waitFor(() => !pluginManager.getPluginOrder().includes('d'))
+    })
+
+    await t.step('should load plugins listed in a manifest', async () => {
+      loader.close()
+      await pluginManager.clearPlugins()
+      await Deno.mkdir(`${directory}/packages`)
+      await Deno.writeTextFile(`${directory}/packages/named.ts`, namedPluginSource)
+      await Deno.writeTextFile(`${directory}/packages/default.ts`, pluginSource('default'))
+      await Deno.writeTextFile(
+        `${directory}/manifest.json`,
+        JSON.stringify({
+          plugins: [
+            { specifier: './packages/named.ts', export: 'NamedPlugin', options: { level: 3 } },
+            new URL(`file://${directory}/packages/default.ts`).href,
+            { specifier: './packages/default.ts', enabled: false },
+            { specifier: './packages/missing.ts' },
+            { specifier: './packages/named.ts', export: 'OtherPlugin' },
+          ],
+        }),
+      )
+
+      await loader.loadManifestFile(`${directory}/manifest.json`)
+      assertEquals(pluginManager.getPluginOrder(), ['default', 'named'])
+      assertEquals(pluginManager.getPlugins()[1].config, { level: 3 })
+
+      // A missing manifest lists no plugins
+      await loader.loadManifestFile(`${directory}/none.json`)
+      assertEquals(pluginManager.getPlugins().length, 2)
+    })
+
+    await t.step('should fail when a required plugin does not load', async () => {
+      await pluginManager.clearPlugins()
+      await assertRejects(
+        () =>
+          loader.loadManifest(
+            [
+              { specifier: './packages/missing.ts', required: true },
+              { specifier: './packages/default.ts', required: true },
+              // Rejected by the plugin manager for an invalid config
+              { specifier: './packages/named.ts', export: 'NamedPlugin', options: { level: 'high' }, required: true },
+            ],
+            new URL(`file://${directory}/`),
+          ),
+        Error,
+        'Required plugins failed to load:\n  ./packages/missing.ts',
+      )
+      assertEquals(pluginManager.getPluginOrder(), ['default'])
+    })
+  } finally {
+    loader.close()
+    await pluginManager.clearPlugins()
+    await Deno.remove(directory, { recursive: true })
+  }
+})
@@ -1,19 +1,30 @@
 import './test_setup.ts'
-import { assertExists, assertEquals, assertRejects } from 'jsr:@std/assert'
+import {
+  assertEquals,
+  assertExists,
+  assertRejects,
+  assertStringIncludes,
+  assertThrows,
+} from 'jsr:@std/assert'
 import { PluginManager } from '../src/plugin_manager.ts'
 import { ErrorHandler } from '../src/error_handler.ts'
 import { SessionManager } from '../src/session_manager.ts'
 import { WebSocketManager } from '../src/websocket_manager.ts'
 import { SchemaValidator } from '../src/schema_validator.ts'
-import { CDPErrorType } from '../src/types.ts'
+import { CDPErrorType, type CDPError } from '../src/types.ts'
 import { BaseCDPPlugin } from '../src/base_cdp_plugin.ts'
 import type {
   CDPPlugin,
   CDPCommandRequest,
   CDPCommandResponse,
   CDPEvent,
+  CDPTargetInfo,
+  PluginContext,
+  PluginHoldOptions,
+  Session,
 } from '../src/types.ts'
 import { MockWebSocket } from './mock_websocket.ts'
+import { PluginTestHarness } from '../src/plugin_test_harness.ts'
 
 class TestPlugin extends BaseCDPPlugin {
   override name = 'test-plugin'
@@ -52,6 +63,102 @@ class EventPlugin extends BaseCDPPlugin {
   }
 }
 
+class SyntheticResponsePlugin extends BaseCDPPlugin {
+  override name = 'synthetic-response-plugin'
+  override async onRequest(
+    req: CDPCommandRequest,
+  ): Promise<CDPCommandRequest | CDPCommandResponse | null> {
+    return req.method === 'Runtime.enable' ? { id: 0, result: {} } : req
+  }
+}
+
+class FanOutPlugin extends BaseCDPPlugin {
+  override name = 'fan-out-plugin'
+  override priority = 10
+  override async onEvent(event: CDPEvent): Promise<CDPEvent[]> {
+    return [event, { method: 'Custom.derived', params: { from: event.method } }]
+  }
+}
+
+class StatsPlugin extends BaseCDPPlugin {
+  override name = 'stats-plugin'
+  events: CDPEvent[] = []
+  override customMethods = {
+    'Proxy.getStats': async (params: Record<string, unknown>, context: PluginContext) => {
+      await context.emit({ method: 'Proxy.statsRequested', params })
+      return { plugins: 1 }
+    },
+    'Proxy.fail': (): Promise<void> => {
+      throw new Error('Stats unavailable')
+    },
+  }
+}
+
+class ConfigurablePlugin extends BaseCDPPlugin {
+  override name = 'configurable-plugin'
+  override configSchema = {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      mode: { type: 'string', enum: ['strict', 'lenient'], default: 'lenient' },
+      retries: { type: 'number', default: 1 },
+      verbose: { type: 'boolean' },
+    },
+  }
+}
+
+class SilentPlugin extends BaseCDPPlugin {
+  override name = 'silent-plugin'
+
+  constructor(override apiVersion?: number) {
+    super()
+  }
+
+  // Returns nothing for every request
+  override async onRequest(): Promise<CDPCommandRequest | null> {
+    return undefined as unknown as null
+  }
+}
+
+class GatePlugin extends BaseCDPPlugin {
+  override name = 'gate-plugin'
+  override priority = 1
+  holdOptions: PluginHoldOptions = {}
+  override async onRequest(
+    req: CDPCommandRequest,
+    context: PluginContext,
+  ): Promise<CDPCommandRequest | null> {
+    return req.method === 'Page.navigate' ? context.hold('binding', this.holdOptions) : req
+  }
+  override async onEvent(event: CDPEvent, context: PluginContext): Promise<CDPEvent | null> {
+    if (event.method === 'Runtime.bindingCalled') await context.release('binding')
+    if (event.method === 'Gate.answer') {
+      await context.release('binding', { id: 0, result: { frameId: 'synthetic' } })
+    }
+    if (event.method === 'Gate.close') context.drop('binding')
+    return event
+  }
+}
+
+class RecordingPlugin extends BaseCDPPlugin {
+  override name = 'recording-plugin'
+  methods: string[] = []
+  override async onRequest(req: CDPCommandRequest): Promise<CDPCommandRequest | null> {
+    this.methods.push(req.method)
+    return req
+  }
+}
+
+class HangingPlugin extends BaseCDPPlugin {
+  override name = 'hanging-plugin'
+  override hookTimeouts = { onEvent: 10 }
+  calls = 0
+  override onEvent(): Promise<CDPEvent | null> {
+    this.calls++
+    return new Promise(() => {})
+  }
+}
+
 class ErrorPlugin extends BaseCDPPlugin {
   override name = 'error-plugin'
   override async onRequest(): Promise<CDPCommandRequest | null> {
@@ -72,6 +179,47 @@ class BlockingPlugin extends BaseCDPPlugin {
   }
 }
 
+class NetworkOnlyPlugin extends BaseCDPPlugin {
+  override name = 'network-only-plugin'
+  override matcher = { methods: 'Network.*', direction: 'chrome' as const }
+  seen: string[] = []
+  override async onEvent(event: CDPEvent): Promise<CDPEvent | null> {
+    this.seen.push(event.method)
+    return event
+  }
+}
+
+class ContextPlugin extends BaseCDPPlugin {
+  override name = 'context-plugin'
+  contexts: PluginContext[] = []
+  override async onRequest(
+    req: CDPCommandRequest,
+    context?: PluginContext,
+  ): Promise<CDPCommandRequest | null> {
+    context && this.contexts.push(context)
+    return req
+  }
+}
+
+class LifecyclePlugin extends BaseCDPPlugin {
+  override name = 'lifecycle-plugin'
+  calls: string[] = []
+  contexts: PluginContext[] = []
+  override async onSessionStart(session: Session) {
+    this.calls.push(`start:${session.id}`)
+  }
+  override async onSessionEnd(session: Session) {
+    this.calls.push(`end:${session.id}`)
+  }
+  override async onTargetAttached(target: CDPTargetInfo, context: PluginContext) {
+    this.calls.push(`attached:${target.targetId}`)
+    this.contexts.push(context)
+  }
+  override async onTargetDetached(target: CDPTargetInfo) {
+    this.calls.push(`detached:${target.targetId}`)
+  }
+}
+
 Deno.test({
   name: 'PluginManager',
   async fn(t) {
@@ -79,7 +227,12 @@ Deno.test({
     const mockSessionManager = new SessionManager(mockErrorHandler)
     const mockSchemaValidator = new SchemaValidator()
     const mockWsManager = new WebSocketManager(mockErrorHandler, mockSchemaValidator, null)
-    const pluginManager = new PluginManager(mockErrorHandler, mockSessionManager, mockWsManager)
+    const pluginManager = new PluginManager(
+      mockErrorHandler,
+      mockSessionManager,
+      mockWsManager,
+      mockSchemaValidator,
+    )
 
     await t.step('should register and unregister plugins', () => {
       const plugin = new TestPlugin()
@@ -104,7 +257,7 @@ Deno.test({
         params: { original: true },
       }
 
-      const result = await pluginManager.processRequest(request)
+      const result = await pluginManager.processRequest(request) as CDPCommandRequest | null
       assertExists(result)
       assertEquals(result.params?.modified, true)
       assertEquals(result.params?.original, true)
@@ -112,6 +265,124 @@ Deno.test({
       pluginManager.unregisterPlugin(plugin)
     })
 
+    await t.step('should skip disabled plugins', async () => {
+      const plugin = new RequestPlugin()
+      const stats = new StatsPlugin()
+      pluginManager.registerPlugin(plugin)
+      pluginManager.registerPlugin(stats)
+      const request: CDPCommandRequest = { id: 1, method: 'Page.enable' }
+      const inSession = (proxySessionId: string) => ({ direction: 'client' as const, proxySessionId })
+
+      try {
+        pluginManager.disablePlugin('request-plugin')
+        pluginManager.disablePlugin('stats-plugin')
+        assertEquals(await pluginManager.processMessage(request), [request])
+        assertEquals(
+          await pluginManager.processMessage({ id: 2, method: 'Proxy.getStats' }),
+          [{ id: 2, method: 'Proxy.getStats' }],
+        )
+        assertEquals(plugin.enabledState, { enabled: false, sessions: {} })
+
+        pluginManager.enablePlugin('request-plugin', 'session-a')
+        const [enabled] = await pluginManager.processMessage(request, inSession('session-a'))
+        assertEquals((enabled as CDPCommandRequest).params, { modified: true })
+        assertEquals(await pluginManager.processMessage(request, inSession('session-b')), [request])
+
+        pluginManager.enablePlugin('request-plugin')
+        pluginManager.disablePlugin('request-plugin', 'session-b')
+        assertEquals(
+          pluginManager.getPlugins().find(({ name }) => name === 'request-plugin')?.enabledState,
+          { enabled: true, sessions: { 'session-b': false } },
+        )
+        assertEquals(await pluginManager.processMessage(request, inSession('session-b')), [request])
+
+        assertThrows(() => pluginManager.enablePlugin('missing-plugin'), Error, 'Unknown plugin')
+      } finally {
+        await pluginManager.unregisterPlugin(plugin)
+        await pluginManager.unregisterPlugin(stats)
+      }
+    })
+
+    await t.step('should record what dry-run plugins would change', async () => {
+      const rewriter = Object.assign(new RequestPlugin(), { dryRun: true })
+      const blocker = Object.assign(new BlockingPlugin(), { dryRun: true, priority: 200 })
+      pluginManager.registerPlugin(rewriter)
+      pluginManager.registerPlugin(blocker)
+      const request: CDPCommandRequest = { id: 1, method: 'Page.navigate', params: { url: 'about:blank' } }
+
+      try {
+        assertEquals(await pluginManager.processRequest(request), request)
+        assertEquals(request.params, { url: 'about:blank' })
+        assertEquals(
+          pluginManager.getDryRunRecords().map(({ plugin, outcome, diff }) => ({ plugin, outcome, diff })),
+          [
+            {
+              plugin: 'request-plugin',
+              outcome: 'changed',
+              diff: [{ op: 'add', path: '/params/modified', to: true }],
+            },
+            { plugin: 'blocking-plugin', outcome: 'dropped', diff: undefined },
+          ],
+        )
+        assertEquals(pluginManager.getDryRunRecords('blocking-plugin')[0].message, request)
+
+        pluginManager.clearDryRunRecords()
+        assertEquals(pluginManager.getDryRunRecords(), [])
+      } finally {
+        await pluginManager.unregisterPlugin(rewriter)
+        await pluginManager.unregisterPlugin(blocker)
+      }
+    })
+
+    await t.step('should only run the plugins a session selected', async () => {
+      const plugin = new RequestPlugin()
+      const stats = new StatsPlugin()
+      pluginManager.registerPlugin(plugin)
+      pluginManager.registerPlugin(stats)
+      pluginManager.setPluginProfiles({ stats: ['stats-plugin'] })
+      const socket = new MockWebSocket('ws://localhost:9222') as unknown as WebSocket
+      const request: CDPCommandRequest = { id: 1, method: 'Page.enable' }
+
+      try {
+        const select = (query: string) =>
+          pluginManager.selectPlugins(new URL(`ws://localhost/devtools/browser/1${query}`))
+        assertEquals(select(''), undefined)
+        assertEquals(select('?plugins='), [])
+        assertEquals(select('?profile=stats&plugins=request-plugin,stats-plugin'), [
+          'stats-plugin',
+          'request-plugin',
+        ])
+        assertThrows(() => select('?profile=recording'), Error, 'Unknown plugin profile: recording')
+        assertThrows(() => select('?plugins=recorder'), Error, 'Unknown plugins: recorder')
+
+        const statsOnly = mockSessionManager.createSession(
+          socket,
+          socket,
+          'ws://localhost',
+          undefined,
+          select('?profile=stats'),
+        )
+        const origin = { direction: 'client' as const, proxySessionId: statsOnly.id }
+        assertEquals(await pluginManager.processMessage(request, origin), [request])
+        // Answered by the selected plugin instead of being forwarded
+        const [response] = await pluginManager.processMessage({ id: 2, method: 'Proxy.getStats' }, origin)
+        assertEquals('method' in response, false)
+
+        const all = mockSessionManager.createSession(socket, socket, 'ws://localhost')
+        const [modified] = await pluginManager.processMessage(request, {
+          ...origin,
+          proxySessionId: all.id,
+        })
+        assertEquals((modified as CDPCommandRequest).params, { modified: true })
+        mockSessionManager.removeSession(statsOnly.id)
+        mockSessionManager.removeSession(all.id)
+      } finally {
+        pluginManager.setPluginProfiles({})
+        await pluginManager.unregisterPlugin(plugin)
+        await pluginManager.unregisterPlugin(stats)
+      }
+    })
+
     await t.step('should process responses through plugins', async () => {
       const plugin = new ResponsePlugin()
 
@@ -122,7 +393,7 @@ Deno.test({
         result: { original: true },
       }
 
-      const result = await pluginManager.processResponse(response)
+      const result = await pluginManager.processResponse(response) as CDPCommandResponse | null
       assertExists(result)
       assertEquals(result.result?.modified, true)
       assertEquals(result.result?.original, true)
@@ -140,7 +411,7 @@ Deno.test({
         params: { original: true },
       }
 
-      const result = await pluginManager.processEvent(event)
+      const result = await pluginManager.processEvent(event) as CDPEvent | null
       assertExists(result)
       assertEquals(result.params?.modified, true)
       assertEquals(result.params?.original, true)
@@ -148,6 +419,197 @@ Deno.test({
       pluginManager.unregisterPlugin(plugin)
     })
 
+    await t.step('should short-circuit requests with synthetic responses', async () => {
+      const responder = new SyntheticResponsePlugin()
+      const responsePlugin = new ResponsePlugin()
+
+      pluginManager.registerPlugin(responder)
+      pluginManager.registerPlugin(responsePlugin)
+
+      const result = await pluginManager.processRequest({
+        id: 42,
+        method: 'Runtime.enable',
+        sessionId: 'CDP-SESSION',
+      })
+      assertEquals(result, {
+        id: 42,
+        result: { modified: true },
+        sessionId: 'CDP-SESSION',
+      })
+
+      pluginManager.unregisterPlugin(responder)
+      pluginManager.unregisterPlugin(responsePlugin)
+    })
+
+    await t.step('should pass each fanned out message through later plugins', async () => {
+      const fanOut = new FanOutPlugin()
+      const eventPlugin = new EventPlugin()
+
+      pluginManager.registerPlugin(eventPlugin)
+      pluginManager.registerPlugin(fanOut)
+
+      const messages = await pluginManager.processMessage({
+        method: 'test.event',
+        params: { original: true },
+      })
+      assertEquals(messages, [
+        { method: 'test.event', params: { original: true, modified: true } },
+        { method: 'Custom.derived', params: { from: 'test.event', modified: true } },
+      ])
+
+      pluginManager.unregisterPlugin(fanOut)
+      assertEquals(
+        await pluginManager.processMessage({ method: 'test.event', params: {} }),
+        [{ method: 'test.event', params: { modified: true } }],
+      )
+
+      pluginManager.unregisterPlugin(eventPlugin)
+      assertEquals(await pluginManager.processMessage({ method: 'test.event' }), [
+        { method: 'test.event' },
+      ])
+    })
+
+    await t.step('should answer plugin-defined methods', async () => {
+      const plugin = new StatsPlugin()
+      const responsePlugin = new ResponsePlugin()
+      const emitted: CDPEvent[] = []
+      const originalEmit = pluginManager.emitClientEvent
+      pluginManager.emitClientEvent = async (_sessionId, event) => {
+        emitted.push(event as CDPEvent)
+      }
+
+      try {
+        pluginManager.registerPlugin(plugin)
+        pluginManager.registerPlugin(responsePlugin)
+
+        assertEquals(
+          await pluginManager.processRequest({ id: 5, method: 'Proxy.getStats', params: { verbose: true } }),
+          { id: 5, result: { plugins: 1, modified: true } },
+        )
+        assertEquals(emitted, [{ method: 'Proxy.statsRequested', params: { verbose: true } }])
+
+        const failed = await pluginManager.processRequest({ id: 6, method: 'Proxy.fail' }) as CDPCommandResponse
+        assertEquals(failed.error?.code, -32000)
+        assertEquals(failed.error?.message, 'Stats unavailable')
+
+        // Other methods still go to Chrome
+        assertEquals(
+          await pluginManager.processRequest({ id: 7, method: 'Page.enable' }),
+          { id: 7, method: 'Page.enable' },
+        )
+      } finally {
+        pluginManager.emitClientEvent = originalEmit
+        pluginManager.unregisterPlugin(plugin)
+        pluginManager.unregisterPlugin(responsePlugin)
+      }
+    })
+
+    await t.step('should reject custom methods that are already defined', () => {
+      const errors: CDPError[] = []
+      const originalHandleError = mockErrorHandler.handleError
+      mockErrorHandler.handleError = (error: CDPError) => {
+        errors.push(error)
+      }
+      mockSchemaValidator['commandValidators'].set('Proxy.fail', {})
+
+      try {
+        const first = new StatsPlugin()
+        pluginManager.registerPlugin(first)
+        assertEquals(pluginManager.getPlugins().length, 0)
+        assertEquals(errors[0].code, 2006)
+
+        mockSchemaValidator['commandValidators'].delete('Proxy.fail')
+        pluginManager.registerPlugin(first)
+        pluginManager.registerPlugin(new StatsPlugin())
+        assertEquals(pluginManager.getPlugins(), [first])
+        assertEquals(errors[1].code, 2006)
+
+        // Methods are released with their plugin
+        pluginManager.unregisterPlugin(first)
+        pluginManager.registerPlugin(first)
+        assertEquals(pluginManager.getPlugins(), [first])
+        pluginManager.unregisterPlugin(first)
+      } finally {
+        mockErrorHandler.handleError = originalHandleError
+      }
+    })
+
+    await t.step('should resolve and validate plugin configuration', () => {
+      const errors: CDPError[] = []
+      const originalHandleError = mockErrorHandler.handleError
+      mockErrorHandler.handleError = (error: CDPError) => {
+        errors.push(error)
+      }
+
+      try {
+        pluginManager.setConfigSources({
+          file: { 'configurable-plugin': { mode: 'strict', retries: 2 } },
+          env: {
+            CDP_PROXY_PLUGIN_CONFIGURABLE_PLUGIN_RETRIES: '3',
+            CDP_PROXY_PLUGIN_CONFIGURABLE_PLUGIN_VERBOSE: 'true',
+          },
+          options: { 'configurable-plugin': { verbose: false } },
+        })
+        const plugin = new ConfigurablePlugin()
+        pluginManager.registerPlugin(plugin)
+        assertEquals(plugin.config, { mode: 'strict', retries: 3, verbose: false })
+        pluginManager.unregisterPlugin(plugin)
+
+        pluginManager.setConfigSources({ env: {} })
+        const defaults = new ConfigurablePlugin()
+        pluginManager.registerPlugin(defaults)
+        assertEquals(defaults.config, { mode: 'lenient', retries: 1 })
+        pluginManager.unregisterPlugin(defaults)
+
+        pluginManager.setConfigSources({
+          env: {},
+          options: { 'configurable-plugin': { mode: 'fast', colour: 'red' } },
+        })
+        pluginManager.registerPlugin(new ConfigurablePlugin())
+        assertEquals(pluginManager.getPlugins().length, 0)
+        assertEquals(errors.length, 1)
+        assertEquals(errors[0].code, 2007)
+        assertEquals(
+          errors[0].message,
+          'Invalid configuration for plugin configurable-plugin: mode: Value must be one of: strict, lenient',
+        )
+      } finally {
+        pluginManager.setConfigSources({})
+        mockErrorHandler.handleError = originalHandleError
+      }
+    })
+
+    await t.step('should reject plugins for unsupported API versions', async () => {
+      const errors: CDPError[] = []
+      const originalHandleError = mockErrorHandler.handleError
+      mockErrorHandler.handleError = (error: CDPError) => {
+        errors.push(error)
+      }
+      const request: CDPCommandRequest = { id: 1, method: 'Page.enable' }
+
+      try {
+        // Returning nothing drops the message, with or without apiVersion
+        for (const plugin of [new SilentPlugin(), new SilentPlugin(1)]) {
+          pluginManager.registerPlugin(plugin)
+          assertEquals(await pluginManager.processRequest(request), null)
+          pluginManager.unregisterPlugin(plugin)
+        }
+
+        pluginManager.registerPlugin(new SilentPlugin(3))
+        pluginManager.registerPlugin(new SilentPlugin(1.5))
+        assertEquals(pluginManager.getPlugins().length, 0)
+        assertEquals(errors.map(({ code }) => code), [2009, 2009])
+        assertEquals(
+          errors[0].message,
+          'Plugin silent-plugin needs plugin API 3, this proxy supports 1. Update the proxy.',
+        )
+        assertEquals(errors[0].details, { plugin: 'silent-plugin', apiVersion: 3 })
+        assertStringIncludes(errors[1].message, 'invalid apiVersion 1.5')
+      } finally {
+        mockErrorHandler.handleError = originalHandleError
+      }
+    })
+
     await t.step('should handle plugin errors gracefully', async () => {
       const plugin = new ErrorPlugin()
 
@@ -166,6 +628,29 @@ Deno.test({
       pluginManager.unregisterPlugin(plugin)
     })
 
+    await t.step('should time out hung hooks and trip the circuit breaker', async () => {
+      const plugin = new HangingPlugin()
+      const event: CDPEvent = { method: 'test.event' }
+
+      pluginManager.registerPlugin(plugin)
+
+      for (let i = 0; i < 3; i++) {
+        assertEquals(await pluginManager.processEvent(event), event, 'Message should pass through')
+      }
+      assertEquals(plugin.calls, 3)
+
+      // The breaker is open, so the plugin is skipped
+      assertEquals(await pluginManager.processEvent(event), event)
+      assertEquals(plugin.calls, 3)
+
+      // After the cooldown the plugin is re-enabled
+      pluginManager['circuitStates'].get(plugin)!.openUntil = Date.now() - 1
+      await pluginManager.processEvent(event)
+      assertEquals(plugin.calls, 4)
+
+      pluginManager.unregisterPlugin(plugin)
+    })
+
     await t.step('should handle plugin message blocking', async () => {
       const plugin = new BlockingPlugin()
 
@@ -193,6 +678,115 @@ Deno.test({
       pluginManager.unregisterPlugin(plugin)
     })
 
+    await t.step('should only dispatch messages matching the plugin matcher', async () => {
+      const plugin = new NetworkOnlyPlugin()
+
+      pluginManager.registerPlugin(plugin)
+
+      await pluginManager.processEvent({ method: 'Network.requestWillBeSent' })
+      await pluginManager.processEvent({ method: 'Page.frameNavigated' })
+      await pluginManager.processEvent(
+        { method: 'Network.loadingFinished' },
+        { direction: 'client' },
+      )
+
+      assertEquals(plugin.seen, ['Network.requestWillBeSent'])
+
+      pluginManager.unregisterPlugin(plugin)
+    })
+
+    await t.step('should pass a context to plugin hooks', async () => {
+      const plugin = new ContextPlugin()
+
+      pluginManager.registerPlugin(plugin)
+
+      await pluginManager.processEvent({
+        method: 'Target.attachedToTarget',
+        params: {
+          sessionId: 'CDP-SESSION',
+          targetInfo: { targetId: 'T1', type: 'iframe' },
+        },
+      })
+      await pluginManager.processRequest(
+        { id: 1, method: 'Page.enable', sessionId: 'CDP-SESSION' },
+        { direction: 'client', proxySessionId: 'proxy-session', path: '/devtools/browser/1' },
+      )
+
+      const [context] = plugin.contexts
+      assertEquals(context.proxySessionId, 'proxy-session')
+      assertEquals(context.sessionId, 'CDP-SESSION')
+      assertEquals(context.path, '/devtools/browser/1')
+      assertEquals(context.direction, 'client')
+      assertEquals(context.targetInfo?.type, 'iframe')
+      assertEquals(typeof context.receivedAt, 'number')
+      await assertRejects(
+        () => context.send({ method: 'Page.reload' }),
+        Error,
+        'Invalid proxy session ID',
+      )
+
+      pluginManager.unregisterPlugin(plugin)
+    })
+
+    await t.step('should call lifecycle hooks for sessions and targets', async () => {
+      const plugin = new LifecyclePlugin()
+      const mockSocket = new MockWebSocket('ws://test') as unknown as WebSocket
+
+      pluginManager.registerPlugin(plugin)
+      const session = mockSessionManager.createSession(mockSocket, mockSocket, 'ws://localhost:9222')
+      const attach = (sessionId: string, targetId: string) =>
+        pluginManager.processMessage(
+          {
+            method: 'Target.attachedToTarget',
+            params: { sessionId, targetInfo: { targetId, type: 'page' } },
+          },
+          { direction: 'chrome', proxySessionId: session.id, path: '/devtools/browser/1' },
+        )
+
+      await attach('LIFECYCLE-1', 'P1')
+      await attach('LIFECYCLE-1', 'P1')
+      await pluginManager.processEvent({
+        method: 'Target.detachedFromTarget',
+        params: { sessionId: 'LIFECYCLE-1', targetId: 'P1' },
+      })
+
+      // Targets still attached when the session ends are detached with it
+      await attach('LIFECYCLE-2', 'P2')
+      mockSessionManager.removeSession(session.id)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+
+      assertEquals(plugin.calls, [
+        `start:${session.id}`,
+        'attached:P1',
+        'detached:P1',
+        'attached:P2',
+        'detached:P2',
+        `end:${session.id}`,
+      ])
+      assertEquals(plugin.contexts[0].sessionId, 'LIFECYCLE-1')
+      assertEquals(plugin.contexts[0].proxySessionId, session.id)
+      assertEquals(plugin.contexts[0].targetInfo?.targetId, 'P1')
+
+      pluginManager.unregisterPlugin(plugin)
+    })
+
+    await t.step('should order plugins by priority and constraints', async () => {
+      const createPlugin = (name: string, options: Partial<CDPPlugin> = {}) =>
+        Object.assign(new TestPlugin(), { name, ...options })
+
+      const plugins = [
+        createPlugin('redact', { after: ['rewrite'] }),
+        createPlugin('rewrite', { priority: 200 }),
+        createPlugin('logger', { priority: 10 }),
+        createPlugin('auth'),
+      ]
+      plugins.forEach((plugin) => pluginManager.registerPlugin(plugin))
+
+      assertEquals(pluginManager.getPluginOrder(), ['logger', 'auth', 'rewrite', 'redact'])
+
+      await pluginManager.clearPlugins()
+    })
+
     await t.step('should clear all plugins', async () => {
       const plugins = [
         new TestPlugin(),
@@ -419,12 +1013,14 @@ Deno.test({
       // Create mock WebSocket
       const mockSocket = new MockWebSocket('ws://localhost:9222')
       const mockSession = mockSessionManager.createSession(mockSocket, mockSocket, 'ws://localhost:9222')
+      mockWsManager.handleConnection(mockSocket, mockSocket, mockSession.id)
 
       // Wait for the WebSocket to be open
       await new Promise(resolve => setTimeout(resolve, 100))
 
-      // Emit the event
+      // Emit the event, it is sent behind the messages queued for the client
       await pluginManager.emitClientEvent(mockSession.id, mockEvent)
+      await new Promise(resolve => setTimeout(resolve, 10))
 
       // Verify the sent message
       const sentMessage = (mockSocket as MockWebSocket).getLastSentMessage()
@@ -433,6 +1029,7 @@ Deno.test({
       assertEquals(parsedMessage.params.data, 'test')
 
       // Clean up
+      mockWsManager.cleanup(mockSession.id)
       mockSocket.close()
       mockSessionManager.removeSession(mockSession.id)
     })
@@ -459,3 +1056,85 @@ Deno.test({
     })
   }
 })
+
+Deno.test('PluginManager - held messages', async (t) => {
+  const gate = new GatePlugin()
+  const recorder = new RecordingPlugin()
+  const harness = await PluginTestHarness.create([gate, recorder])
+  const errors: CDPError[] = []
+  harness.errorHandler.handleError = (error: CDPError) => {
+    errors.push(error)
+  }
+
+  const navigate = async (id: number) => {
+    harness.sendFromClient({ id, method: 'Page.navigate', params: { url: 'about:blank' } })
+    await harness.settle()
+  }
+
+  try {
+    await t.step('should park held messages without blocking others', async () => {
+      await navigate(100)
+      const response = await harness.send('Runtime.evaluate', { expression: '1' })
+      assertExists(response.result)
+      assertEquals(recorder.methods, ['Runtime.evaluate'])
+      assertEquals(harness.chromeMessages.map(({ method }) => method), ['Runtime.evaluate'])
+
+      // Released messages continue after the holder
+      await harness.emit('Runtime.bindingCalled', { name: 'ready' })
+      await harness.settle()
+      assertEquals(recorder.methods, ['Runtime.evaluate', 'Page.navigate'])
+      assertEquals(harness.chromeMessages.map(({ method }) => method), [
+        'Runtime.evaluate',
+        'Page.navigate',
+      ])
+      assertExists(harness.clientMessages.find((message) => 'id' in message && message.id === 100))
+    })
+
+    await t.step('should release a replacement or drop held messages', async () => {
+      harness.clear()
+      recorder.methods = []
+
+      await navigate(101)
+      await harness.emit('Gate.answer')
+      await harness.settle()
+      assertEquals(harness.chromeMessages, [])
+      assertEquals(
+        harness.clientMessages.find((message) => 'id' in message && message.id === 101),
+        { id: 101, result: { frameId: 'synthetic' } },
+      )
+
+      harness.clear()
+      await navigate(102)
+      await harness.emit('Gate.close')
+      await harness.emit('Runtime.bindingCalled', { name: 'ready' })
+      assertEquals(recorder.methods, [])
+      assertEquals(harness.chromeMessages, [])
+    })
+
+    await t.step('should apply the timeout policy', async () => {
+      harness.clear()
+      gate.holdOptions = { timeout: 10, onTimeout: 'error' }
+      await navigate(103)
+      await new Promise((resolve) => setTimeout(resolve, 30))
+      await harness.settle()
+      const [response] = harness.clientMessages.filter((message) => 'id' in message)
+      assertEquals((response as CDPCommandResponse).error?.message, 'Message held by plugin gate-plugin timed out after 10ms')
+      assertEquals(errors.at(-1)?.code, 2008)
+
+      harness.clear()
+      gate.holdOptions = { timeout: 10, onTimeout: 'drop' }
+      await navigate(104)
+      await new Promise((resolve) => setTimeout(resolve, 30))
+      await harness.settle()
+      assertEquals(harness.chromeMessages, [])
+
+      gate.holdOptions = { timeout: 10 }
+      await navigate(105)
+      await new Promise((resolve) => setTimeout(resolve, 30))
+      await harness.settle()
+      assertEquals(harness.chromeMessages.map(({ method }) => method), ['Page.navigate'])
+    })
+  } finally {
+    await harness.close()
+  }
+})
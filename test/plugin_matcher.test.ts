@@ -0,0 +1,62 @@
+import './test_setup.ts'
+import { assertEquals } from 'jsr:@std/assert'
+import {
+  getMessageMetadata,
+  matchesGlob,
+  matchesPlugin,
+} from '../src/plugin_matcher.ts'
+
+Deno.test('PluginMatcher', async (t) => {
+  await t.step('should match method globs', () => {
+    assertEquals(matchesGlob('Network.*', 'Network.enable'), true)
+    assertEquals(matchesGlob('Network.*', 'Page.enable'), false)
+    assertEquals(matchesGlob('*.enable', 'Runtime.enable'), true)
+    assertEquals(matchesGlob('Runtime.enable', 'Runtime.enableX'), false)
+  })
+
+  await t.step('should build metadata for each message type', () => {
+    const origin = { direction: 'client' as const, path: '/devtools/page/1' }
+
+    const request = getMessageMetadata({ id: 1, method: 'Page.enable' }, origin)
+    assertEquals(request.type, 'request')
+    assertEquals(request.method, 'Page.enable')
+    assertEquals(request.targetType, 'page')
+
+    const response = getMessageMetadata({ id: 1, result: {} }, origin)
+    assertEquals(response.type, 'response')
+    assertEquals(response.method, undefined)
+
+    const answered = getMessageMetadata(
+      { id: 1, result: {} },
+      { ...origin, direction: 'chrome', request: { id: 1, method: 'Page.enable' } },
+    )
+    assertEquals(answered.method, 'Page.enable')
+
+    const event = getMessageMetadata(
+      { method: 'Page.loadEventFired', sessionId: 'ABC' },
+      origin,
+      'iframe',
+    )
+    assertEquals(event.type, 'event')
+    assertEquals(event.sessionId, 'ABC')
+    assertEquals(event.targetType, 'iframe')
+  })
+
+  await t.step('should require every configured field to match', () => {
+    const metadata = getMessageMetadata(
+      { method: 'Network.enable', id: 1, sessionId: 'ABC' },
+      { direction: 'client' },
+      'page',
+    )
+
+    assertEquals(matchesPlugin(undefined, metadata), true)
+    assertEquals(matchesPlugin({ methods: ['Page.*', 'Network.*'] }, metadata), true)
+    assertEquals(matchesPlugin({ direction: 'chrome' }, metadata), false)
+    assertEquals(matchesPlugin({ sessionIds: 'ABC', targetTypes: 'page' }, metadata), true)
+    assertEquals(matchesPlugin({ targetTypes: ['worker'] }, metadata), false)
+    assertEquals(
+      matchesPlugin({ methods: 'Network.*', predicate: ({ type }) => type === 'event' }, metadata),
+      false,
+    )
+  })
+})
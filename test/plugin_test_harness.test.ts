@@ -0,0 +1,109 @@
+import './test_setup.ts'
+import { assertEquals, assertRejects } from 'jsr:@std/assert'
+import { BaseCDPPlugin } from '../src/base_cdp_plugin.ts'
+import { PluginTestHarness } from '../src/plugin_test_harness.ts'
+import type {
+  CDPCommandRequest,
+  CDPCommandResponse,
+  CDPEvent,
+  PluginContext,
+} from '../src/types.ts'
+
+class VersionPlugin extends BaseCDPPlugin {
+  override name = 'version-plugin'
+  override configSchema = {
+    type: 'object',
+    properties: { product: { type: 'string', default: 'HeadlessChrome' } },
+  }
+
+  override async onRequest(
+    request: CDPCommandRequest,
+    context?: PluginContext,
+  ): Promise<CDPCommandRequest | null> {
+    if (request.method === 'Tracking.disable') return null
+    if (request.method === 'Runtime.enable') {
+      const { result } = await context!.send({ method: 'Page.getFrameTree' })
+      await context!.emit({ method: 'Plugin.frameTree', params: result })
+    }
+    return request
+  }
+
+  override async onResponse(
+    response: CDPCommandResponse,
+    context?: PluginContext,
+  ): Promise<CDPCommandResponse | null> {
+    if (context?.request?.method !== 'Browser.getVersion') return response
+    return { ...response, result: { ...response.result, product: this.config!.product } }
+  }
+
+  override async onEvent(event: CDPEvent): Promise<CDPEvent | null> {
+    return event.method === 'Network.requestWillBeSent' ? null : event
+  }
+}
+
+Deno.test('PluginTestHarness', async (t) => {
+  await t.step('should relay scripted browser replies through the plugin', async () => {
+    const harness = await PluginTestHarness.create(new VersionPlugin(), {
+      pluginConfig: { 'version-plugin': { product: 'Chrome/120' } },
+    })
+
+    try {
+      harness.respond('Browser.getVersion', { product: 'HeadlessChrome/120', revision: '1' })
+      const response = await harness.send('Browser.getVersion')
+      assertEquals(response.result, { product: 'Chrome/120', revision: '1' })
+      assertEquals(harness.chromeMessages, [{ id: 1, method: 'Browser.getVersion', params: {} }])
+    } finally {
+      await harness.close()
+    }
+  })
+
+  await t.step('should record commands the plugin sends itself', async () => {
+    const harness = await PluginTestHarness.create(new VersionPlugin())
+
+    try {
+      harness.respond('Page.getFrameTree', () => ({ frameTree: { frame: { id: 'F1' } } }))
+      harness.respond('Runtime.enable', () => {
+        throw new Error('Runtime unavailable')
+      })
+
+      const response = await harness.send('Runtime.enable')
+      assertEquals(response.error?.message, 'Runtime unavailable')
+      assertEquals(harness.pluginCommands.map(({ method }) => method), ['Page.getFrameTree'])
+      assertEquals(harness.clientMessages[0], {
+        method: 'Plugin.frameTree',
+        params: { frameTree: { frame: { id: 'F1' } } },
+      })
+    } finally {
+      await harness.close()
+    }
+  })
+
+  await t.step('should show what the plugin drops', async () => {
+    const harness = await PluginTestHarness.create(new VersionPlugin())
+
+    try {
+      await harness.emit('Network.requestWillBeSent', { requestId: '1' })
+      await harness.emit('Page.loadEventFired', { timestamp: 1 })
+      assertEquals(harness.clientMessages, [
+        { method: 'Page.loadEventFired', params: { timestamp: 1 } },
+      ])
+
+      harness.clear()
+      await assertRejects(() => harness.send('Tracking.disable'), Error, 'No response')
+      assertEquals(harness.chromeMessages, [])
+    } finally {
+      await harness.close()
+    }
+  })
+
+  await t.step('should refuse plugins with an invalid config', async () => {
+    await assertRejects(
+      () =>
+        PluginTestHarness.create(new VersionPlugin(), {
+          pluginConfig: { 'version-plugin': { product: 120 } },
+        }),
+      Error,
+      'Plugins rejected: version-plugin',
+    )
+  })
+})
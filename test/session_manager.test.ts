@@ -63,6 +63,32 @@ Deno.test('SessionManager', async (t) => {
     sanitizeOps: false,
   })
 
+  await t.step({
+    name: 'should find sessions without reporting missing ones',
+    fn: async () => {
+      setup()
+      const session = sessionManager.createSession(
+        new MockWebSocket('ws://client'),
+        new MockWebSocket('ws://chrome'),
+        'ws://test-url',
+      )
+      const reported: string[] = []
+      const originalHandleError = errorHandler.handleError
+      errorHandler.handleError = (error) => void reported.push(error.message)
+
+      try {
+        assertEquals(sessionManager.findSession(session.id), session)
+        await cleanupSessions()
+        assertEquals(sessionManager.findSession(session.id), undefined)
+        assertEquals(reported, [], 'Missing sessions should not be reported')
+      } finally {
+        errorHandler.handleError = originalHandleError
+      }
+    },
+    sanitizeResources: false,
+    sanitizeOps: false,
+  })
+
   await t.step({
     name: 'should throw error when retrieving non-existent session',
     async fn() {
@@ -199,4 +225,35 @@ Deno.test('SessionManager', async (t) => {
     sanitizeResources: false,
     sanitizeOps: false,
   })
+
+  await t.step({
+    name: 'should notify listeners of session lifecycle events',
+    fn: () => {
+      setup()
+      const events: string[] = []
+      const removeListener = sessionManager.addSessionListener((event, session) =>
+        events.push(`${event}:${session.id}`)
+      )
+
+      const session = sessionManager.createSession(
+        new MockWebSocket('ws://client'),
+        new MockWebSocket('ws://chrome'),
+        'ws://test-url',
+      )
+      sessionManager.removeSession(session.id)
+      sessionManager.removeSession(session.id)
+      assertEquals(events, [`created:${session.id}`, `removed:${session.id}`])
+
+      removeListener()
+      sessionManager.createSession(
+        new MockWebSocket('ws://client'),
+        new MockWebSocket('ws://chrome'),
+        'ws://test-url',
+      )
+      assertEquals(events.length, 2, 'Removed listeners should not be called')
+      sessionManager.cleanup()
+    },
+    sanitizeResources: false,
+    sanitizeOps: false,
+  })
 })
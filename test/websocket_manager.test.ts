@@ -1,5 +1,5 @@
 import './test_setup.ts'
-import { assertEquals, assertNotEquals } from 'jsr:@std/assert'
+import { assertEquals, assertNotEquals, assertStringIncludes } from 'jsr:@std/assert'
 import { WebSocketManager } from '../src/websocket_manager.ts'
 import { ErrorHandler } from '../src/error_handler.ts'
 import { SchemaValidator } from '../src/schema_validator.ts'
@@ -7,6 +7,50 @@ import { PluginManager } from '../src/plugin_manager.ts'
 import { CDPErrorType, CDPError } from '../src/types.ts'
 import { SessionManager } from '../src/session_manager.ts'
 import { MockWebSocket } from './mock_websocket.ts'
+import { BaseCDPPlugin } from '../src/base_cdp_plugin.ts'
+import type {
+  BufferOverflowPolicy,
+  CDPCommandRequest,
+  CDPCommandResponse,
+  CDPEvent,
+  PluginContext,
+} from '../src/types.ts'
+
+class FakeRuntimePlugin extends BaseCDPPlugin {
+  override name = 'fake-runtime-plugin'
+  override async onRequest(
+    req: CDPCommandRequest,
+  ): Promise<CDPCommandRequest | CDPCommandResponse | null> {
+    return req.method === 'Runtime.enable' ? { id: req.id, result: {} } : req
+  }
+}
+
+class ResponseContextPlugin extends BaseCDPPlugin {
+  override name = 'response-context-plugin'
+  contexts: PluginContext[] = []
+  override async onRequest(req: CDPCommandRequest): Promise<CDPCommandRequest> {
+    return { ...req, params: { ...req.params, fromPlugin: true } }
+  }
+  override async onResponse(
+    res: CDPCommandResponse,
+    context?: PluginContext,
+  ): Promise<CDPCommandResponse> {
+    context && this.contexts.push(context)
+    return res
+  }
+}
+
+class SlowPlugin extends BaseCDPPlugin {
+  override name = 'slow-plugin'
+  override async onRequest(req: CDPCommandRequest): Promise<CDPCommandRequest> {
+    req.method.startsWith('Slow.') && await new Promise((resolve) => setTimeout(resolve, 50))
+    return req
+  }
+  override async onEvent(event: CDPEvent): Promise<CDPEvent> {
+    event.method.startsWith('Slow.') && await new Promise((resolve) => setTimeout(resolve, 50))
+    return event
+  }
+}
 
 Deno.test('WebSocketManager', async (t) => {
   const createDependencies = () => {
@@ -70,6 +114,120 @@ Deno.test('WebSocketManager', async (t) => {
     }
   })
 
+  await t.step('should deliver synthetic responses to the client only', async () => {
+    const { manager, pluginManager } = createDependencies()
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+
+    try {
+      pluginManager.registerPlugin(new FakeRuntimePlugin())
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        'test-session'
+      )
+
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+
+      clientSocket.simulateMessage(JSON.stringify({ id: 7, method: 'Runtime.enable', sessionId: 'S1' }))
+      await new Promise(resolve => setTimeout(resolve, 10))
+
+      assertEquals(chromeSocket.getSentMessages().length, 0, 'Chrome should never see the request')
+      assertEquals(
+        JSON.parse(clientSocket.getLastSentMessage()!),
+        { id: 7, result: {}, sessionId: 'S1' },
+      )
+    } finally {
+      await pluginManager.clearPlugins()
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should keep plugin command responses away from the client', async () => {
+    const { manager } = createDependencies()
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+
+    try {
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        'test-session'
+      )
+
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+
+      // A client id in the plugin range and a duplicate in-flight id get remapped
+      clientSocket.simulateMessage(JSON.stringify({ id: 1, method: 'Page.enable' }))
+      clientSocket.simulateMessage(JSON.stringify({ id: 1, method: 'Page.reload' }))
+      clientSocket.simulateMessage(JSON.stringify({ id: 1000000005, method: 'Network.enable' }))
+      await new Promise(resolve => setTimeout(resolve, 10))
+
+      const sentIds = chromeSocket.getSentMessages().map(msg => JSON.parse(msg).id)
+      assertEquals(sentIds[0], 1)
+      assertEquals(new Set(sentIds).size, 3, 'Ids sent to Chrome should be unique')
+      sentIds.forEach(id => assertEquals(id < 1000000000, true))
+
+      chromeSocket.simulateMessage(JSON.stringify({ id: 1000000000, result: {} }))
+      for (const id of sentIds) {
+        chromeSocket.simulateMessage(JSON.stringify({ id, result: {} }))
+      }
+      await new Promise(resolve => setTimeout(resolve, 10))
+
+      const receivedIds = clientSocket.getSentMessages().map(msg => JSON.parse(msg).id)
+      assertEquals(receivedIds, [1, 1, 1000000005])
+    } finally {
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should pass the originating request to response hooks', async () => {
+    const { manager, pluginManager } = createDependencies()
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const plugin = new ResponseContextPlugin()
+
+    try {
+      pluginManager.registerPlugin(plugin)
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        'test-session'
+      )
+
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+
+      clientSocket.simulateMessage(JSON.stringify({ id: 1, method: 'Page.navigate', params: { url: 'about:blank' } }))
+      clientSocket.simulateMessage(JSON.stringify({ id: 1, method: 'Page.reload' }))
+      await new Promise(resolve => setTimeout(resolve, 10))
+
+      const [, reloadId] = chromeSocket.getSentMessages().map(msg => JSON.parse(msg).id)
+      chromeSocket.simulateMessage(JSON.stringify({ id: reloadId, result: {} }))
+      chromeSocket.simulateMessage(JSON.stringify({ id: 1, result: {} }))
+      await new Promise(resolve => setTimeout(resolve, 10))
+
+      const [reload, navigate] = plugin.contexts
+      assertEquals(reload.request, { id: 1, method: 'Page.reload', params: { fromPlugin: true } })
+      assertEquals(navigate.request, {
+        id: 1,
+        method: 'Page.navigate',
+        params: { url: 'about:blank', fromPlugin: true },
+      })
+      assertEquals(typeof navigate.latency, 'number')
+
+      // Responses Chrome sends for unknown ids carry no request
+      chromeSocket.simulateMessage(JSON.stringify({ id: 99, result: {} }))
+      await new Promise(resolve => setTimeout(resolve, 10))
+      assertEquals(plugin.contexts[2].request, undefined)
+    } finally {
+      await pluginManager.clearPlugins()
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
   await t.step('should handle WebSocket errors gracefully', async () => {
     const { manager, errorHandler } = createDependencies()
     const capturedErrors: CDPError[] = []
@@ -253,6 +411,502 @@ Deno.test('WebSocketManager', async (t) => {
     }
   })
 
+  await t.step('should keep each session in order while plugins are slow', async () => {
+    const { manager, pluginManager } = createDependencies()
+    const sessions = ['ordered-1', 'ordered-2'].map((id) => ({
+      id,
+      clientSocket: new MockWebSocket(`client-${id}`),
+      chromeSocket: new MockWebSocket(`chrome-${id}`),
+    }))
+
+    try {
+      pluginManager.registerPlugin(new SlowPlugin())
+      for (const { id, clientSocket, chromeSocket } of sessions) {
+        manager.handleConnection(
+          clientSocket as unknown as WebSocket,
+          chromeSocket as unknown as WebSocket,
+          id,
+        )
+        clientSocket.simulateOpen()
+        chromeSocket.simulateOpen()
+      }
+      const [ordered, other] = sessions
+      const sentMethods = (socket: MockWebSocket) =>
+        socket.getSentMessages().map((message) => JSON.parse(message).method)
+
+      ordered.clientSocket.simulateMessage(JSON.stringify({ id: 1, method: 'Slow.first' }))
+      ordered.clientSocket.simulateMessage(JSON.stringify({ id: 2, method: 'Fast.second' }))
+      other.clientSocket.simulateMessage(JSON.stringify({ id: 1, method: 'Fast.other' }))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+
+      assertEquals(sentMethods(ordered.chromeSocket), [], 'Later messages should wait')
+      assertEquals(sentMethods(other.chromeSocket), ['Fast.other'], 'Other sessions should not wait')
+      assertEquals(manager.getQueueStats(ordered.id).client.depth, 2)
+
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      assertEquals(sentMethods(ordered.chromeSocket), ['Slow.first', 'Fast.second'])
+      assertEquals(manager.getQueueStats(ordered.id), {
+        client: { depth: 0, maxDepth: 2, paused: false, pauseCount: 0, bytes: 0, dropped: 0 },
+        chrome: { depth: 0, maxDepth: 0, paused: false, pauseCount: 0, bytes: 0, dropped: 0 },
+      })
+    } finally {
+      await pluginManager.clearPlugins()
+      for (const { clientSocket, chromeSocket } of sessions) {
+        await cleanup(clientSocket, chromeSocket)
+      }
+    }
+  })
+
+  await t.step('should send plugin events after the messages queued before them', async () => {
+    const { manager, pluginManager } = createDependencies()
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const sessionId = 'emit-order-session'
+
+    try {
+      pluginManager.registerPlugin(new SlowPlugin())
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+      )
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+
+      chromeSocket.simulateMessage(JSON.stringify({ method: 'Slow.event', params: {} }))
+      manager.queueClientEvent(sessionId, { method: 'Plugin.emitted', params: {} })
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      assertEquals(
+        clientSocket.getSentMessages().map((message) => JSON.parse(message).method),
+        ['Slow.event', 'Plugin.emitted'],
+      )
+    } finally {
+      await pluginManager.clearPlugins()
+      manager.cleanup(sessionId)
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should pause the faster side while the slower one drains', async () => {
+    const errorHandler = new ErrorHandler()
+    const manager = new WebSocketManager(errorHandler, new SchemaValidator(), null, {
+      highWaterMark: 1000,
+      lowWaterMark: 100,
+    })
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const sessionId = 'backpressure-session'
+
+    try {
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+      )
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+      clientSocket.simulateBufferedAmount(5000)
+
+      chromeSocket.simulateMessage(JSON.stringify({ method: 'Page.screencastFrame', params: {} }))
+      clientSocket.simulateMessage(JSON.stringify({ id: 1, method: 'Page.screencastFrameAck' }))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+
+      assertEquals(clientSocket.getSentMessages(), [], 'Chrome messages should wait for the client')
+      assertEquals(chromeSocket.getSentMessages().length, 1, 'Client messages should still flow')
+      assertEquals(manager.getQueueStats(sessionId).chrome.paused, true)
+
+      // Still above the low-water mark
+      clientSocket.simulateBufferedAmount(500)
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      assertEquals(clientSocket.getSentMessages(), [])
+
+      clientSocket.simulateBufferedAmount(0)
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      assertEquals(clientSocket.getSentMessages().length, 1)
+      assertEquals(manager.getQueueStats(sessionId).chrome, {
+        depth: 0,
+        maxDepth: 1,
+        paused: false,
+        pauseCount: 1,
+        bytes: 0,
+        dropped: 0,
+      })
+    } finally {
+      manager.cleanup(sessionId)
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should keep paused messages within the buffer limit', async () => {
+    const command = (id: number) => JSON.stringify({ id, method: 'Input.dispatchMouseEvent' })
+    const size = command(1000).length
+    const errorHandler = new ErrorHandler()
+    const errors: CDPError[] = []
+    errorHandler.handleError = (error: CDPError) => void errors.push(error)
+    const manager = new WebSocketManager(errorHandler, new SchemaValidator(), null, {
+      maxSize: size * 3,
+      highWaterMark: 1000,
+      lowWaterMark: 100,
+    })
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const sessionId = 'paused-limit-session'
+
+    try {
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+      )
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+      chromeSocket.simulateBufferedAmount(5000)
+
+      for (let id = 1000; id < 2000; id++) clientSocket.simulateMessage(command(id))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+
+      const stats = manager.getQueueStats(sessionId).client
+      assertEquals(stats.paused, true)
+      assertEquals(stats.bytes, size * 3, 'Only the newest messages should wait')
+      assertEquals(stats.dropped, 997)
+      assertEquals(errors.every(({ code }) => code === 1009), true)
+      assertEquals(
+        clientSocket.getSentMessages().length,
+        997,
+        'The dropped commands should be answered with an error',
+      )
+
+      chromeSocket.simulateBufferedAmount(0)
+      await new Promise((resolve) => setTimeout(resolve, 100))
+      assertEquals(
+        chromeSocket.getSentMessages().map((message) => JSON.parse(message).method),
+        ['Input.dispatchMouseEvent', 'Input.dispatchMouseEvent', 'Input.dispatchMouseEvent'],
+      )
+      assertEquals(manager.getQueueStats(sessionId).client.bytes, 0)
+    } finally {
+      manager.cleanup(sessionId)
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should close the session instead of dropping paused Chrome messages', async () => {
+    const event = (index: number) => JSON.stringify({ method: 'Page.screencastFrame', params: { index } })
+    const size = event(1000).length
+    const errorHandler = new ErrorHandler()
+    const errors: CDPError[] = []
+    errorHandler.handleError = (error: CDPError) => void errors.push(error)
+    const manager = new WebSocketManager(errorHandler, new SchemaValidator(), null, {
+      maxSize: size * 3,
+      highWaterMark: 1000,
+      lowWaterMark: 100,
+    })
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const sessionId = 'paused-chrome-session'
+
+    try {
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+      )
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+      clientSocket.simulateBufferedAmount(5000)
+
+      for (let index = 1000; index < 1010; index++) chromeSocket.simulateMessage(event(index))
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      const [error] = errors
+      assertEquals(error.code, 1009)
+      assertStringIncludes(error.message, 'closing the session')
+      assertEquals(errors.every(({ message }) => !message.includes('dropped')), true)
+      assertEquals(clientSocket.readyState, WebSocket.CLOSED)
+      assertEquals(chromeSocket.readyState, WebSocket.CLOSED)
+      assertEquals(clientSocket.getSentMessages(), [], 'No event should be sent after a dropped one')
+    } finally {
+      manager.cleanup(sessionId)
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should apply the overflow policy once the buffer is full', async () => {
+    const command = (id: number) => JSON.stringify({ id, method: 'Test.method' })
+    const size = command(1).length
+    const connect = async (overflowPolicy: BufferOverflowPolicy) => {
+      const errorHandler = new ErrorHandler()
+      const errors: CDPError[] = []
+      errorHandler.handleError = (error: CDPError) => void errors.push(error)
+      const manager = new WebSocketManager(errorHandler, new SchemaValidator(), null, {
+        maxSize: size * 3,
+        warningThreshold: size * 2,
+        overflowPolicy,
+      })
+      const clientSocket = new MockWebSocket('client')
+      const chromeSocket = new MockWebSocket('chrome')
+      const sessionId = `${overflowPolicy}-session`
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+      )
+      clientSocket.simulateOpen()
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      chromeSocket.setReadyState(WebSocket.CONNECTING)
+      return { manager, errors, clientSocket, chromeSocket, sessionId }
+    }
+    const sendCommands = async (socket: MockWebSocket, count: number) => {
+      for (let id = 1; id <= count; id++) socket.simulateMessage(command(id))
+      await new Promise((resolve) => setTimeout(resolve, 50))
+    }
+
+    const dropOldest = await connect('drop-oldest')
+    try {
+      await sendCommands(dropOldest.clientSocket, 4)
+      assertEquals(dropOldest.manager.getBufferUsage(dropOldest.sessionId), { bytes: size * 3, messages: 3 })
+      assertEquals(dropOldest.errors.map(({ code }) => code), [1009])
+      assertEquals(
+        dropOldest.clientSocket.getSentMessages().map((message) => JSON.parse(message).id),
+        [1],
+        'The dropped command should be answered with an error',
+      )
+
+      dropOldest.chromeSocket.simulateOpen()
+      await new Promise((resolve) => setTimeout(resolve, 50))
+      assertEquals(dropOldest.chromeSocket.getSentMessages(), [command(2), command(3), command(4)])
+      assertEquals(dropOldest.manager.getBufferUsage(dropOldest.sessionId), { bytes: 0, messages: 0 })
+    } finally {
+      dropOldest.manager.cleanup(dropOldest.sessionId)
+      await cleanup(dropOldest.clientSocket, dropOldest.chromeSocket)
+    }
+
+    const reject = await connect('reject')
+    try {
+      await sendCommands(reject.clientSocket, 4)
+      assertEquals(reject.manager.getBufferUsage(reject.sessionId).messages, 3)
+      const [response] = reject.clientSocket.getSentMessages().map((message) => JSON.parse(message))
+      assertEquals(response.id, 4, 'The newest command should be rejected')
+      assertEquals(response.error.code, -32000)
+    } finally {
+      reject.manager.cleanup(reject.sessionId)
+      await cleanup(reject.clientSocket, reject.chromeSocket)
+    }
+
+    const close = await connect('close')
+    try {
+      await sendCommands(close.clientSocket, 4)
+      assertEquals(close.clientSocket.readyState, WebSocket.CLOSED)
+      assertEquals(close.chromeSocket.readyState, WebSocket.CLOSED)
+      assertEquals(close.manager.getBufferUsage(close.sessionId), { bytes: 0, messages: 0 })
+    } finally {
+      close.manager.cleanup(close.sessionId)
+      await cleanup(close.clientSocket, close.chromeSocket)
+    }
+  })
+
+  await t.step('should reject messages bigger than the whole buffer', async () => {
+    const errorHandler = new ErrorHandler()
+    const errors: CDPError[] = []
+    errorHandler.handleError = (error: CDPError) => void errors.push(error)
+    // maxMessageSize keeps its default, which is bigger than the buffer
+    const manager = new WebSocketManager(errorHandler, new SchemaValidator(), null, { maxBufferSize: 100 })
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const sessionId = 'oversized-session'
+
+    try {
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+      )
+      clientSocket.simulateOpen()
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      chromeSocket.setReadyState(WebSocket.CONNECTING)
+
+      clientSocket.simulateMessage(JSON.stringify({ id: 1, method: 'Test.small' }))
+      clientSocket.simulateMessage(
+        JSON.stringify({ id: 2, method: 'Test.big', params: { data: 'x'.repeat(200) } }),
+      )
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      assertEquals(manager.getBufferUsage(sessionId).messages, 1, 'Smaller messages should stay buffered')
+      assertEquals(errors.map(({ code }) => code), [1009])
+      const [response] = clientSocket.getSentMessages().map((message) => JSON.parse(message))
+      assertEquals(response.id, 2)
+      assertEquals(response.error.code, -32000)
+    } finally {
+      manager.cleanup(sessionId)
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should reconnect Chrome and replay the session setup', async () => {
+    const manager = new WebSocketManager(new ErrorHandler(), new SchemaValidator(), null)
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const reconnectedSocket = new MockWebSocket('chrome')
+    const sessionId = 'reconnect-session'
+    const urls: string[] = []
+    const send = (id: number, method: string, params = {}) =>
+      clientSocket.simulateMessage(JSON.stringify({ id, method, params }))
+
+    try {
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+        {
+          getUrl: () => 'ws://chrome/devtools/page/1',
+          connect: (url) => (urls.push(url), reconnectedSocket as unknown as WebSocket),
+        },
+      )
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+
+      send(1, 'Runtime.enable')
+      send(2, 'Page.enable')
+      send(3, 'Target.setAutoAttach', { autoAttach: true, flatten: true })
+      send(4, 'Page.disable')
+      send(5, 'Runtime.evaluate', { expression: '1' })
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      ;[1, 2, 3, 4].forEach((id) => chromeSocket.simulateMessage(JSON.stringify({ id, result: {} })))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      clientSocket.clearSentMessages()
+
+      chromeSocket.close()
+      send(6, 'Runtime.evaluate', { expression: '2' })
+      send(7, 'Network.enable')
+      await new Promise((resolve) => setTimeout(resolve, 50))
+
+      assertEquals(urls, ['ws://chrome/devtools/page/1'])
+      const [failed] = clientSocket.getSentMessages().map((message) => JSON.parse(message))
+      assertEquals(failed.id, 5, 'The command in flight should fail')
+      assertEquals(failed.error.code, -32000)
+      assertEquals(
+        reconnectedSocket.getSentMessages().map((message) => JSON.parse(message).method),
+        ['Runtime.enable', 'Target.setAutoAttach', 'Runtime.evaluate', 'Network.enable'],
+        'Setup should be replayed before the buffered commands, and each sent once',
+      )
+
+      reconnectedSocket.simulateMessage(JSON.stringify({ id: 1, result: {} }))
+      reconnectedSocket.simulateMessage(JSON.stringify({ id: 6, result: { value: 2 } }))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      assertEquals(
+        clientSocket.getSentMessages().slice(1).map((message) => JSON.parse(message)),
+        [{ id: 6, result: { value: 2 } }],
+        'The client should only get responses to its own commands',
+      )
+    } finally {
+      manager.cleanup(sessionId)
+      reconnectedSocket.close()
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should probe a quiet Chrome and close the session once it stops responding', async () => {
+    const errorHandler = new ErrorHandler()
+    const errors: CDPError[] = []
+    errorHandler.handleError = (error: CDPError) => void errors.push(error)
+    const manager = new WebSocketManager(errorHandler, new SchemaValidator(), null, {}, {
+      interval: 30,
+      missedLimit: 2,
+    })
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const sessionId = 'heartbeat-session'
+
+    try {
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+        { getUrl: () => 'ws://chrome/devtools/page/1' },
+      )
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+
+      await new Promise((resolve) => setTimeout(resolve, 75))
+      const [probe] = chromeSocket.getSentMessages().map((message) => JSON.parse(message))
+      assertEquals(probe.method, 'Browser.getVersion', 'A quiet Chrome should be probed')
+      chromeSocket.simulateMessage(JSON.stringify({ id: probe.id, result: { product: 'Chrome' } }))
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      assertEquals(clientSocket.getSentMessages(), [], 'Probes should never reach the client')
+      assertEquals(chromeSocket.readyState, WebSocket.OPEN)
+
+      await new Promise((resolve) => setTimeout(resolve, 150))
+      assertEquals(errors.map(({ code }) => code), [1008])
+      assertEquals(clientSocket.readyState, WebSocket.CLOSED)
+      assertEquals(chromeSocket.readyState, WebSocket.CLOSED, 'Chrome should not be reconnected')
+      assertEquals(manager['connectionStates'].has(sessionId), false, 'Closing should not restore the session')
+    } finally {
+      manager.cleanup(sessionId)
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should keep an idle Chrome that answers its probes', async () => {
+    const errorHandler = new ErrorHandler()
+    const errors: CDPError[] = []
+    errorHandler.handleError = (error: CDPError) => void errors.push(error)
+    const manager = new WebSocketManager(errorHandler, new SchemaValidator(), null, {}, {
+      interval: 30,
+      missedLimit: 1,
+    })
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const sessionId = 'idle-heartbeat-session'
+    // Chrome answers every probe, and sends nothing else
+    const send = chromeSocket.send.bind(chromeSocket)
+    chromeSocket.send = (data) => {
+      send(data)
+      const { id } = JSON.parse(data as string)
+      setTimeout(() => chromeSocket.simulateMessage(JSON.stringify({ id, result: { product: 'Chrome' } })), 5)
+    }
+
+    try {
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+      )
+      clientSocket.simulateOpen()
+      chromeSocket.simulateOpen()
+
+      await new Promise((resolve) => setTimeout(resolve, 200))
+      assertEquals(errors, [])
+      assertEquals(chromeSocket.readyState, WebSocket.OPEN)
+      assertEquals(clientSocket.getSentMessages(), [], 'Probes should never reach the client')
+      assertEquals(chromeSocket.getSentMessages().length > 1, true, 'A quiet Chrome should be probed')
+    } finally {
+      manager.cleanup(sessionId)
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
+  await t.step('should not restore a session whose sockets open after cleanup', async () => {
+    const { manager } = createDependencies()
+    const clientSocket = new MockWebSocket('client')
+    const chromeSocket = new MockWebSocket('chrome')
+    const sessionId = 'cleaned-up-session'
+
+    try {
+      manager.handleConnection(
+        clientSocket as unknown as WebSocket,
+        chromeSocket as unknown as WebSocket,
+        sessionId,
+      )
+      manager.cleanup(sessionId)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+
+      assertEquals(chromeSocket.readyState, WebSocket.OPEN)
+      assertEquals(manager['connectionStates'].has(sessionId), false)
+    } finally {
+      await cleanup(clientSocket, chromeSocket)
+    }
+  })
+
   await t.step('should handle WebSocket connection edge cases', async () => {
     const { manager } = createDependencies()
     const clientSocket = new MockWebSocket('client')
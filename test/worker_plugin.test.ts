@@ -0,0 +1,116 @@
+import './test_setup.ts'
+import { assertEquals, assertRejects } from 'jsr:@std/assert'
+import { WorkerPlugin } from '../src/worker_plugin.ts'
+import { PluginManager } from '../src/plugin_manager.ts'
+import { ErrorHandler } from '../src/error_handler.ts'
+import { SessionManager } from '../src/session_manager.ts'
+import { WebSocketManager } from '../src/websocket_manager.ts'
+import { SchemaValidator } from '../src/schema_validator.ts'
+import type { CDPCommandResponse, CDPMessage } from '../src/types.ts'
+
+const baseUrl = new URL('../src/base_cdp_plugin.ts', import.meta.url).href
+
+const pluginSource = `
+import { BaseCDPPlugin } from '${baseUrl}'
+export default class extends BaseCDPPlugin {
+  name = 'isolated'
+  priority = 5
+  permissions = { env: ['ISOLATED_PLUGIN_VALUE'] }
+  hookTimeouts = { onRequest: 500 }
+  customMethods = {
+    'Isolated.ping': async (params) => ({ pong: params.value }),
+  }
+  override async onRequest(request, context) {
+    if (request.method === 'Isolated.hold') return context.hold('gate')
+    if (request.method === 'Isolated.open') await context.release('gate')
+    if (request.method === 'Isolated.readHome') Deno.env.get('HOME')
+    if (request.method === 'Isolated.crash') setTimeout(() => { throw new Error('boom') })
+    if (request.method === 'Isolated.hang') while (true) {}
+    if (request.method !== 'Page.enable') return request
+    return {
+      ...request,
+      params: { value: Deno.env.get('ISOLATED_PLUGIN_VALUE') },
+    }
+  }
+}
+`
+
+Deno.test('WorkerPlugin', async (t) => {
+  const errorHandler = new ErrorHandler()
+  const wsManager = new WebSocketManager(errorHandler, new SchemaValidator(), null)
+  const pluginManager = new PluginManager(errorHandler, new SessionManager(errorHandler), wsManager)
+  const directory = await Deno.makeTempDir()
+  const file = `${directory}/isolated.ts`
+  await Deno.writeTextFile(file, pluginSource)
+  Deno.env.set('ISOLATED_PLUGIN_VALUE', 'from-env')
+
+  const plugin = await WorkerPlugin.create(new URL(`file://${file}`).href)
+  pluginManager.registerPlugin(plugin)
+
+  try {
+    await t.step('should describe the plugin loaded in the worker', () => {
+      assertEquals(plugin.name, 'isolated')
+      assertEquals(plugin.priority, 5)
+      assertEquals(plugin.onEvent, undefined)
+      assertEquals(Object.keys(plugin.customMethods ?? {}), ['Isolated.ping'])
+    })
+
+    await t.step('should run hooks in the worker with declared permissions', async () => {
+      assertEquals(
+        await pluginManager.processRequest({ id: 1, method: 'Page.enable' }),
+        { id: 1, method: 'Page.enable', params: { value: 'from-env' } },
+      )
+      assertEquals(
+        await pluginManager.processRequest({ id: 2, method: 'Isolated.ping', params: { value: 3 } }),
+        { id: 2, result: { pong: 3 } },
+      )
+    })
+
+    await t.step('should hold and release messages from the worker', async () => {
+      const delivered: CDPMessage[] = []
+      wsManager.deliverMessages = (_sessionId, messages) => delivered.push(...messages)
+      const origin = { direction: 'client' as const, proxySessionId: 'isolated-session' }
+
+      assertEquals(await pluginManager.processRequest({ id: 6, method: 'Isolated.hold' }, origin), null)
+      assertEquals(
+        await pluginManager.processRequest({ id: 7, method: 'Isolated.open' }, origin),
+        { id: 7, method: 'Isolated.open' },
+      )
+      assertEquals(delivered, [{ id: 6, method: 'Isolated.hold' }])
+    })
+
+    await t.step('should deny undeclared permissions', async () => {
+      await assertRejects(
+        () => plugin.onRequest({ id: 3, method: 'Isolated.readHome' }),
+        Error,
+        'Requires env access',
+      )
+    })
+
+    await t.step('should restart the worker after a crash', async () => {
+      await plugin.onRequest({ id: 4, method: 'Isolated.crash' })
+      await new Promise((resolve) => setTimeout(resolve, 100))
+
+      const result = await pluginManager.processRequest({ id: 5, method: 'Isolated.ping', params: { value: 5 } })
+      assertEquals((result as CDPCommandResponse).result, { pong: 5 })
+    })
+
+    await t.step('should restart a worker that stops answering', async () => {
+      await assertRejects(
+        () => plugin.onRequest({ id: 8, method: 'Isolated.hang' }),
+        Error,
+        'onRequest did not finish within 500ms',
+      )
+
+      // Waits for the replacement worker, which takes longer than the hook timeout
+      assertEquals(
+        await plugin.onRequest({ id: 9, method: 'Page.enable' }),
+        { id: 9, method: 'Page.enable', params: { value: 'from-env' } },
+      )
+    })
+  } finally {
+    await pluginManager.clearPlugins()
+    Deno.env.delete('ISOLATED_PLUGIN_VALUE')
+    await Deno.remove(directory, { recursive: true })
+  }
+})